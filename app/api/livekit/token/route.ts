@@ -0,0 +1,56 @@
+import { randomUUID } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { AccessToken } from "livekit-server-sdk";
+
+const MAX_ROOM_LENGTH = 128;
+const MAX_NAME_LENGTH = 64;
+const TOKEN_TTL = "6h";
+
+/**
+ * Issues a token that lets one participant join a single LiveKit room.
+ * GET /api/livekit/token?room=<roomId>&name=<display name>
+ */
+export async function GET(request: NextRequest) {
+  const apiKey = process.env.LIVEKIT_API_KEY;
+  const apiSecret = process.env.LIVEKIT_API_SECRET;
+  if (!apiKey || !apiSecret) {
+    console.error("LIVEKIT_API_KEY and LIVEKIT_API_SECRET must be set");
+    return NextResponse.json(
+      { error: "LiveKit is not configured" },
+      { status: 500 }
+    );
+  }
+
+  const room = request.nextUrl.searchParams.get("room")?.trim();
+  const name = request.nextUrl.searchParams.get("name")?.trim();
+  if (
+    !room ||
+    !name ||
+    room.length > MAX_ROOM_LENGTH ||
+    name.length > MAX_NAME_LENGTH
+  ) {
+    return NextResponse.json(
+      { error: "A room and a name are required" },
+      { status: 400 }
+    );
+  }
+
+  // Names aren't unique, so each join gets its own identity
+  const token = new AccessToken(apiKey, apiSecret, {
+    identity: `${name}-${randomUUID().slice(0, 8)}`,
+    name,
+    ttl: TOKEN_TTL,
+  });
+  token.addGrant({
+    room,
+    roomJoin: true,
+    canPublish: true,
+    canSubscribe: true,
+    canPublishData: true,
+  });
+
+  return NextResponse.json(
+    { token: await token.toJwt() },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
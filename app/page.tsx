@@ -4,6 +4,7 @@ import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { Flame, ArrowRight } from "lucide-react";
 import { motion } from "framer-motion";
+import { createHostKey } from "@/lib/hostKey";
 
 export default function Home() {
   const router = useRouter();
@@ -19,6 +20,8 @@ export default function Home() {
 
   const createRoom = () => {
     const newId = Math.random().toString(36).substring(2, 9);
+    // Whoever starts the baithak hosts it
+    createHostKey(newId);
     router.push(`/room/${newId}`);
   };
 
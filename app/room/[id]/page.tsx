@@ -1,86 +1,257 @@
 "use client";
 
-import { useState } from "react";
-import { useParams, useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
 import { DeviceSettings } from "@/components/DeviceSettings";
 import { SetupScreen } from "@/components/SetupScreen";
 import { VideoLayout } from "@/components/VideoLayout";
 import { ChatSidebar } from "@/components/ChatSidebar";
-import { useMediasoup, DeviceSelections } from "@/hooks/useMediasoup";
+import { ParticipantsPanel } from "@/components/ParticipantsPanel";
+import { StatusScreen } from "@/components/StatusScreen";
+import { AdmissionQueue } from "@/components/AdmissionQueue";
+import { HandQueue } from "@/components/HandQueue";
+import { BreakoutPanel } from "@/components/BreakoutPanel";
+import { PasswordPrompt } from "@/components/PasswordPrompt";
+import { ShareMenu } from "@/components/ShareMenu";
+import { PictureInPictureCall } from "@/components/PictureInPictureCall";
+import { MediaSettingsProvider } from "@/contexts/MediaSettingsContext";
+import { useConference } from "@/hooks/useConference";
+import { RoomAccessStatus, useRoomAccess } from "@/hooks/useRoomAccess";
+import { formatCountdown, useCountdown } from "@/hooks/useCountdown";
+import { useLayoutPreferences } from "@/hooks/useLayoutPreferences";
+import { usePictureInPicture } from "@/hooks/usePictureInPicture";
+import {
+  BACKEND_FEATURES,
+  CONFERENCE_BACKEND,
+  Admission,
+  DeviceSelections,
+  HostNotice,
+  RemovalReason,
+  UplinkWarning,
+  VideoParticipant,
+} from "@/lib/conference";
+import { withPassphraseHash } from "@/lib/e2ee";
+import { INVITE_PARAM, withInvite } from "@/lib/roomAccess";
+import {
+  BackgroundEffect,
+  NO_BACKGROUND_EFFECT,
+} from "@/lib/backgroundProcessor";
 import {
   Mic,
   MicOff,
   Video,
   VideoOff,
+  MonitorUp,
+  MonitorX,
   PhoneOff,
   MessageSquare,
   Settings,
-  Share,
   Users,
   Loader2,
+  Lock,
+  WifiLow,
   X,
+  Crown,
+  DoorClosed,
+  DoorOpen,
+  Hourglass,
+  Hand,
+  Split,
+  Timer,
+  Megaphone,
+  ArrowLeft,
+  PictureInPicture2,
+  LucideIcon,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { motion, AnimatePresence } from "framer-motion";
 
-const SOCKET_URL =
-  process.env.NEXT_PUBLIC_SOCKET_URL || "http://10.80.224.96:5000";
+const UPLINK_WARNINGS: Record<UplinkWarning, string> = {
+  bandwidth: "Your connection is slow, others may see blurry video",
+  cpu: "Your device is struggling, video quality was lowered",
+  network: "Your connection is unstable, others may hear you break up",
+};
+
+const HOST_NOTICES: Record<HostNotice, string> = {
+  muted: "The host muted your mic",
+  videoStopped: "The host turned off your camera",
+  madeHost: "You're now the host",
+  calledOn: "The host called on you, go ahead",
+};
+
+const HOST_NOTICE_ICONS: Record<HostNotice, LucideIcon> = {
+  muted: MicOff,
+  videoStopped: VideoOff,
+  madeHost: Crown,
+  calledOn: Hand,
+};
+
+const REMOVAL_MESSAGES: Record<RemovalReason, string> = {
+  removed: "The host removed you from this baithak",
+  ended: "The host ended this baithak for everyone",
+};
+
+const HOST_NOTICE_DURATION_MS = 5000;
+
+// Side panels share one slot: full screen on mobile, a column on desktop
+type SidePanel = "chat" | "people" | "breakouts";
+
+const SIDE_PANEL_TITLES: Record<SidePanel, string> = {
+  chat: "Chat",
+  people: "People",
+  breakouts: "Breakouts",
+};
+
+// What the page shows, from the password check through the lobby to the call
+type RoomView =
+  | "checking"
+  | "password"
+  | "setup"
+  | "waiting"
+  | "denied"
+  | "removed"
+  | "error"
+  | "call";
+
+const getRoomView = (
+  access: RoomAccessStatus,
+  hasJoined: boolean,
+  admission: Admission,
+  removedReason: RemovalReason | null,
+  error: Error | null
+): RoomView => {
+  if (access === "checking") return "checking";
+  if (access === "password") return "password";
+  if (access === "error") return "error";
+  if (!hasJoined) return "setup";
+  if (removedReason) return "removed";
+  if (admission === "denied") return "denied";
+  if (error) return "error";
+  if (admission === "waiting") return "waiting";
+  return "call";
+};
 
 export default function RoomPage() {
   const params = useParams();
   const router = useRouter();
   const roomId = params.id as string;
+  const searchParams = useSearchParams();
+
+  const access = useRoomAccess({
+    roomId,
+    invite: searchParams.get(INVITE_PARAM),
+    enabled: BACKEND_FEATURES[CONFERENCE_BACKEND].roomAccess,
+  });
 
   const [hasJoined, setHasJoined] = useState(false);
   const [userName, setUserName] = useState("");
-  const [isChatOpen, setIsChatOpen] = useState(false);
+  const [sidePanel, setSidePanel] = useState<SidePanel | null>(null);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const {
+    preferences: layoutPreferences,
+    updatePreferences: updateLayoutPreferences,
+  } = useLayoutPreferences(roomId);
 
   const [initialMuted, setInitialMuted] = useState(false);
   const [initialVideoOff, setInitialVideoOff] = useState(false);
   const [initialDevices, setInitialDevices] = useState<DeviceSelections>({});
+  const [currentDevices, setCurrentDevices] = useState<DeviceSelections>({});
+  const [initialBackgroundEffect, setInitialBackgroundEffect] =
+    useState<BackgroundEffect>(NO_BACKGROUND_EFFECT);
+  const [e2eePassphrase, setE2eePassphrase] = useState("");
 
   const {
-    socket,
+    messenger,
+    features,
     localParticipant,
     participants,
     activeSpeaker,
+    speakingIds,
+    connectionStats,
+    uplinkWarning,
     isConnecting,
+    isReconnecting,
     error,
     isMuted,
     isVideoOff,
+    isScreenSharing,
+    isEncrypted,
+    decryptionFailedIds,
+    hostId,
+    isRoomLocked,
+    hostControls,
+    hostNotice,
+    dismissHostNotice,
+    removedReason,
+    raisedHands,
+    toggleHand,
+    breakouts,
+    currentBreakout,
+    returnToMainRoom,
+    breakoutBroadcast,
+    dismissBreakoutBroadcast,
+    spotlightIds,
+    admission,
+    hasWaitingRoom,
+    hasPassword,
+    waitingPeers,
     viewMode,
     setViewMode,
+    pinnedIds,
+    togglePin,
+    clearPins,
     toggleMute,
     toggleVideo,
+    startScreenShare,
+    stopScreenShare,
     changeAudioInput,
     changeVideoInput,
+    audioSettings,
+    setAudioSettings,
+    backgroundEffect,
+    setBackgroundEffect,
+    setTileSize,
+    setTileVisible,
+    setDetachedParticipants,
     disconnect,
-  } = useMediasoup({
-    url: SOCKET_URL,
+  } = useConference({
     roomId,
     userName,
     enabled: hasJoined,
     initialMuted,
     initialVideoOff,
     initialDevices,
+    initialBackgroundEffect,
+    e2eePassphrase,
+    credentials: access.credentials,
     onDisconnected: () => {
       router.push("/");
     },
   });
 
+  useEffect(() => {
+    if (!hostNotice) return;
+    const timer = setTimeout(dismissHostNotice, HOST_NOTICE_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [hostNotice, dismissHostNotice]);
+
   const handleJoin = (
     stream: MediaStream,
     name: string,
     muted: boolean,
     videoOff: boolean,
-    devices: { audioInput: string; videoInput: string; audioOutput: string }
+    devices: { audioInput: string; videoInput: string; audioOutput: string },
+    effect: BackgroundEffect,
+    passphrase: string
   ) => {
     stream.getTracks().forEach((t) => t.stop());
     setUserName(name);
     setInitialMuted(muted);
     setInitialVideoOff(videoOff);
     setInitialDevices(devices);
+    setCurrentDevices(devices);
+    setInitialBackgroundEffect(effect);
+    setE2eePassphrase(passphrase);
     setHasJoined(true);
   };
 
@@ -88,16 +259,42 @@ export default function RoomPage() {
     disconnect();
   };
 
-  const copyRoomLink = async () => {
-    const url = window.location.href;
-    await navigator.clipboard.writeText(url);
-    // Could add a toast notification here
+  const toggleSidePanel = (panel: SidePanel) => {
+    setSidePanel((open) => (open === panel ? null : panel));
   };
 
+  const runHostAction = (action: () => Promise<void>) => {
+    action().catch((err) => console.error("Host action failed:", err));
+  };
+
+  const breakoutSecondsLeft = useCountdown(breakouts.endsAt);
+
+  const handleReturnToMainRoom = () => {
+    returnToMainRoom().catch((err) =>
+      console.error("Error returning to the main room:", err)
+    );
+  };
+
+  const isHandRaised =
+    !!localParticipant && raisedHands.includes(localParticipant.id);
+
+  const handleToggleHand = () => {
+    toggleHand().catch((err) => console.error("Error toggling hand:", err));
+  };
+
+  const getShareLink = (invite?: string) =>
+    withPassphraseHash(
+      withInvite(window.location.href, invite),
+      e2eePassphrase
+    );
+
   const handleDeviceChange = async (
     kind: keyof DeviceSelections,
     deviceId: string
   ) => {
+    setCurrentDevices((prev) => ({ ...prev, [kind]: deviceId }));
+
+    // Output routing is picked up by every tile through MediaSettingsProvider
     if (kind === "audioInput") {
       await changeAudioInput(deviceId);
     } else if (kind === "videoInput") {
@@ -105,203 +302,639 @@ export default function RoomPage() {
     }
   };
 
-  if (!hasJoined) {
-    return <SetupScreen onJoin={handleJoin} />;
-  }
+  const connectionError = error ?? access.error ?? null;
+  const HostNoticeIcon = hostNotice && HOST_NOTICE_ICONS[hostNotice];
+  const view = getRoomView(
+    access.status,
+    hasJoined,
+    admission,
+    removedReason,
+    connectionError
+  );
+
+  // Where only a single video can float, it's the active speaker's
+  const floatedParticipant =
+    [activeSpeaker, ...participants].find(
+      (p): p is VideoParticipant =>
+        !!p && p.id !== localParticipant?.id && !!p.videoTrack
+    ) ?? null;
+  const pictureInPicture = usePictureInPicture({
+    enabled: view === "call" && !!localParticipant,
+    fallbackParticipant: floatedParticipant,
+    onVisibilityChange: setTileVisible,
+  });
 
-  if (error) {
+  if (view === "checking") {
     return (
-      <div className="flex flex-col items-center justify-center min-h-screen gap-4 bg-neutral-950 text-white p-4">
-        <div className="text-6xl">😕</div>
-        <h2 className="text-xl font-bold text-red-400">Connection Error</h2>
-        <p className="text-neutral-400 text-center max-w-md">{error.message}</p>
-        <button
-          onClick={() => window.location.reload()}
-          className="px-6 py-2.5 bg-blue-600 text-white rounded-full hover:bg-blue-700 transition-colors font-medium"
-        >
-          Try Again
-        </button>
+      <div className="flex items-center justify-center min-h-screen bg-background">
+        <Loader2 className="w-10 h-10 text-primary animate-spin" />
       </div>
     );
   }
 
+  if (view === "password") {
+    return (
+      <PasswordPrompt
+        inviteStatus={access.inviteStatus}
+        onSubmit={access.submitPassword}
+      />
+    );
+  }
+
+  if (view === "setup") {
+    return (
+      <SetupScreen
+        onJoin={handleJoin}
+        allowEncryption={BACKEND_FEATURES[CONFERENCE_BACKEND].e2ee}
+      />
+    );
+  }
+
+  if (view === "removed") {
+    return (
+      <StatusScreen
+        icon="👋"
+        title="You've left the baithak"
+        message={removedReason && REMOVAL_MESSAGES[removedReason]}
+        actionLabel="Back to Home"
+        onAction={() => router.push("/")}
+      />
+    );
+  }
+
+  if (view === "error") {
+    return (
+      <StatusScreen
+        icon="😕"
+        title="Connection Error"
+        message={connectionError?.message}
+        isError
+        actionLabel="Try Again"
+        onAction={() => window.location.reload()}
+      />
+    );
+  }
+
+  if (view === "waiting") {
+    return (
+      <StatusScreen
+        icon={<Loader2 className="w-14 h-14 text-blue-500 animate-spin" />}
+        title="Waiting for the host"
+        message="You'll join as soon as the host lets you in."
+        actionLabel="Leave"
+        onAction={handleLeave}
+      />
+    );
+  }
+
+  if (view === "denied") {
+    return (
+      <StatusScreen
+        icon="🚪"
+        title="You weren't let in"
+        message="The host declined your request to join this baithak."
+        actionLabel="Back to Home"
+        onAction={() => router.push("/")}
+      />
+    );
+  }
+
   return (
-    <div className="flex h-dvh bg-neutral-950 text-white overflow-hidden">
-      {/* Main Content */}
-      <div
-        className={cn(
-          "flex-1 flex flex-col min-w-0 transition-all duration-300",
-          isChatOpen && "hidden sm:flex"
-        )}
-      >
-        {/* Header */}
-        <header className="h-14 sm:h-16 border-b border-neutral-800 flex items-center justify-between px-3 sm:px-6 bg-neutral-900/80 backdrop-blur-md shrink-0 z-10">
-          <div className="flex items-center gap-2 sm:gap-4 min-w-0">
-            <h1 className="font-semibold text-sm sm:text-lg truncate max-w-[120px] sm:max-w-none">
-              {roomId}
-            </h1>
-            <div className="flex items-center gap-1.5 px-2 py-0.5 rounded-full bg-neutral-800 text-xs font-medium text-neutral-400">
-              <Users className="w-3 h-3" />
-              <span>{participants.length + (localParticipant ? 1 : 0)}</span>
+    <MediaSettingsProvider audioOutputId={currentDevices.audioOutput}>
+      <div className="flex h-dvh bg-neutral-950 text-white overflow-hidden">
+        {/* Main Content */}
+        <div
+          className={cn(
+            "flex-1 flex flex-col min-w-0 transition-all duration-300",
+            sidePanel && "hidden sm:flex"
+          )}
+        >
+          {/* Header */}
+          <header className="h-14 sm:h-16 border-b border-neutral-800 flex items-center justify-between px-3 sm:px-6 bg-neutral-900/80 backdrop-blur-md shrink-0 z-10">
+            <div className="flex items-center gap-2 sm:gap-4 min-w-0">
+              <h1 className="font-semibold text-sm sm:text-lg truncate max-w-[120px] sm:max-w-none">
+                {roomId}
+              </h1>
+              <button
+                onClick={() => toggleSidePanel("people")}
+                className={cn(
+                  "flex items-center gap-1.5 px-2 py-0.5 rounded-full text-xs font-medium transition-colors",
+                  sidePanel === "people"
+                    ? "bg-blue-600/20 text-blue-400"
+                    : "bg-neutral-800 text-neutral-400 hover:text-white"
+                )}
+                title="People"
+              >
+                <Users className="w-3 h-3" />
+                <span>{participants.length + (localParticipant ? 1 : 0)}</span>
+              </button>
+              {isEncrypted && (
+                <div
+                  className="flex items-center gap-1.5 px-2 py-0.5 rounded-full bg-green-500/10 text-xs font-medium text-green-400"
+                  title="Audio and video are end-to-end encrypted"
+                >
+                  <Lock className="w-3 h-3" />
+                  <span className="hidden sm:inline">Encrypted</span>
+                </div>
+              )}
+              {isRoomLocked && (
+                <div
+                  className="flex items-center gap-1.5 px-2 py-0.5 rounded-full bg-amber-500/10 text-xs font-medium text-amber-400"
+                  title="Nobody new can join"
+                >
+                  <DoorClosed className="w-3 h-3" />
+                  <span className="hidden sm:inline">Locked</span>
+                </div>
+              )}
+              {currentBreakout && (
+                <button
+                  onClick={handleReturnToMainRoom}
+                  className="flex items-center gap-1.5 px-2 py-0.5 rounded-full bg-blue-600/20 text-xs font-medium text-blue-400 hover:bg-blue-600/30 transition-colors"
+                  title="Return to the main room"
+                >
+                  <ArrowLeft className="w-3 h-3" />
+                  <span className="truncate max-w-[80px] sm:max-w-none">
+                    {currentBreakout.name}
+                  </span>
+                </button>
+              )}
+              {breakoutSecondsLeft !== null && (
+                <div
+                  className="flex items-center gap-1.5 px-2 py-0.5 rounded-full bg-amber-500/10 text-xs font-medium text-amber-400 tabular-nums"
+                  title="Time left in breakouts"
+                >
+                  <Timer className="w-3 h-3" />
+                  <span>{formatCountdown(breakoutSecondsLeft)}</span>
+                </div>
+              )}
+            </div>
+            <div className="flex items-center gap-1.5">
+              {hostControls && (
+                <button
+                  onClick={() =>
+                    runHostAction(() =>
+                      hostControls.setWaitingRoom(!hasWaitingRoom)
+                    )
+                  }
+                  className={cn(
+                    "p-2 rounded-lg transition-colors",
+                    hasWaitingRoom
+                      ? "bg-blue-600/20 text-blue-400 hover:bg-blue-600/30"
+                      : "text-neutral-400 hover:bg-neutral-800 hover:text-white"
+                  )}
+                  title={
+                    hasWaitingRoom
+                      ? "Turn Off Waiting Room"
+                      : "Turn On Waiting Room"
+                  }
+                >
+                  <Hourglass className="w-4 h-4 sm:w-5 sm:h-5" />
+                </button>
+              )}
+              {hostControls && (
+                <button
+                  onClick={() =>
+                    runHostAction(() =>
+                      hostControls.setRoomLocked(!isRoomLocked)
+                    )
+                  }
+                  className="p-2 rounded-lg hover:bg-neutral-800 text-neutral-400 hover:text-white transition-colors"
+                  title={isRoomLocked ? "Unlock Room" : "Lock Room"}
+                >
+                  {isRoomLocked ? (
+                    <DoorOpen className="w-4 h-4 sm:w-5 sm:h-5" />
+                  ) : (
+                    <DoorClosed className="w-4 h-4 sm:w-5 sm:h-5" />
+                  )}
+                </button>
+              )}
+              {features.breakoutRooms && hostControls && (
+                <button
+                  onClick={() => toggleSidePanel("breakouts")}
+                  className={cn(
+                    "p-2 rounded-lg transition-colors",
+                    sidePanel === "breakouts"
+                      ? "bg-blue-600/20 text-blue-400 hover:bg-blue-600/30"
+                      : "text-neutral-400 hover:bg-neutral-800 hover:text-white"
+                  )}
+                  title="Breakout Rooms"
+                >
+                  <Split className="w-4 h-4 sm:w-5 sm:h-5" />
+                </button>
+              )}
+              <ShareMenu
+                hostControls={hostControls}
+                hasPassword={hasPassword}
+                getLink={getShareLink}
+              />
+              <button
+                onClick={() => setIsSettingsOpen(true)}
+                className={cn(
+                  "p-2 rounded-lg transition-colors",
+                  isSettingsOpen
+                    ? "bg-neutral-800 text-white"
+                    : "text-neutral-400 hover:bg-neutral-800 hover:text-white"
+                )}
+                title="Settings"
+              >
+                <Settings className="w-4 h-4 sm:w-5 sm:h-5" />
+              </button>
             </div>
-          </div>
-          <div className="flex items-center gap-1.5">
+          </header>
+
+          {/* Video Area */}
+          <main className="relative flex-1 min-h-0 p-2 sm:p-4 overflow-hidden">
+            <AnimatePresence>
+              {isReconnecting && (
+                <motion.div
+                  initial={{ opacity: 0, y: -10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -10 }}
+                  className="absolute top-4 left-1/2 -translate-x-1/2 z-20 flex items-center gap-2 px-4 py-2 rounded-full bg-amber-500/15 border border-amber-500/30 text-amber-200 text-sm font-medium backdrop-blur-xl shadow-lg"
+                >
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Reconnecting…
+                </motion.div>
+              )}
+              {!isReconnecting && uplinkWarning && (
+                <motion.div
+                  initial={{ opacity: 0, y: -10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -10 }}
+                  className="absolute top-4 left-1/2 -translate-x-1/2 z-20 flex items-center gap-2 px-4 py-2 rounded-full bg-amber-500/15 border border-amber-500/30 text-amber-200 text-sm font-medium backdrop-blur-xl shadow-lg"
+                >
+                  <WifiLow className="w-4 h-4 shrink-0" />
+                  {UPLINK_WARNINGS[uplinkWarning]}
+                </motion.div>
+              )}
+              {hostNotice && (
+                <motion.div
+                  key={hostNotice}
+                  initial={{ opacity: 0, y: -10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -10 }}
+                  className="absolute top-16 left-1/2 -translate-x-1/2 z-20 flex items-center gap-2 px-4 py-2 rounded-full bg-blue-500/15 border border-blue-500/30 text-blue-100 text-sm font-medium backdrop-blur-xl shadow-lg"
+                >
+                  {HostNoticeIcon && (
+                    <HostNoticeIcon className="w-4 h-4 shrink-0" />
+                  )}
+                  {HOST_NOTICES[hostNotice]}
+                  <button
+                    onClick={dismissHostNotice}
+                    className="p-0.5 rounded-full hover:bg-white/10"
+                    title="Dismiss"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </motion.div>
+              )}
+              {breakoutBroadcast && (
+                <motion.div
+                  key={breakoutBroadcast.message}
+                  initial={{ opacity: 0, y: -10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -10 }}
+                  className="absolute top-28 left-1/2 -translate-x-1/2 z-20 flex items-center gap-2 max-w-[90%] px-4 py-2 rounded-2xl bg-blue-500/15 border border-blue-500/30 text-blue-100 text-sm font-medium backdrop-blur-xl shadow-lg"
+                >
+                  <Megaphone className="w-4 h-4 shrink-0" />
+                  <span>
+                    <span className="font-semibold">
+                      {breakoutBroadcast.senderName}:
+                    </span>{" "}
+                    {breakoutBroadcast.message}
+                  </span>
+                  <button
+                    onClick={dismissBreakoutBroadcast}
+                    className="p-0.5 rounded-full hover:bg-white/10 shrink-0"
+                    title="Dismiss"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </motion.div>
+              )}
+            </AnimatePresence>
+
+            {hostControls && (
+              <AdmissionQueue
+                waitingPeers={waitingPeers}
+                hostControls={hostControls}
+              />
+            )}
+
+            <HandQueue
+              raisedHands={raisedHands}
+              localParticipant={localParticipant}
+              participants={participants}
+              hostControls={hostControls}
+            />
+
+            {isConnecting || !localParticipant ? (
+              <div className="flex flex-col items-center justify-center h-full gap-4">
+                <Loader2 className="w-10 h-10 text-blue-500 animate-spin" />
+                <p className="text-neutral-400 font-medium text-sm">
+                  Connecting to room...
+                </p>
+              </div>
+            ) : (
+              <VideoLayout
+                localParticipant={localParticipant}
+                remoteParticipants={participants}
+                activeSpeaker={activeSpeaker}
+                speakingIds={speakingIds}
+                connectionStats={connectionStats}
+                isEncrypted={isEncrypted}
+                decryptionFailedIds={decryptionFailedIds}
+                hostId={hostId}
+                hostControls={hostControls}
+                raisedHands={raisedHands}
+                spotlightIds={spotlightIds}
+                pinnedIds={pinnedIds}
+                onTogglePin={togglePin}
+                onClearPins={clearPins}
+                viewMode={viewMode}
+                onViewModeChange={setViewMode}
+                onTileSizeChange={setTileSize}
+                onTileVisibilityChange={setTileVisible}
+                layout={layoutPreferences}
+                onLayoutChange={updateLayoutPreferences}
+                // The mini window decides who is detached while it's open
+                onDetachedChange={
+                  pictureInPicture.isOpen ? undefined : setDetachedParticipants
+                }
+              />
+            )}
+
+            <AnimatePresence>
+              {pictureInPicture.isOffered && (
+                <motion.div
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: 10 }}
+                  className="absolute bottom-4 left-1/2 -translate-x-1/2 z-20 flex items-center gap-3 max-w-[90%] px-4 py-2 rounded-2xl bg-neutral-900/90 border border-neutral-700/50 text-neutral-200 text-sm font-medium backdrop-blur-xl shadow-lg"
+                >
+                  <PictureInPicture2 className="w-4 h-4 shrink-0 text-blue-400" />
+                  <span>Keep the call in view while you switch tabs</span>
+                  <button
+                    onClick={pictureInPicture.open}
+                    className="px-3 py-1 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-xs font-semibold shrink-0 transition-colors"
+                  >
+                    Pop out
+                  </button>
+                  <button
+                    onClick={pictureInPicture.dismissOffer}
+                    className="p-0.5 rounded-full hover:bg-white/10 shrink-0"
+                    title="Dismiss"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </main>
+
+          {/* Mini call window, while it's open */}
+          {pictureInPicture.pipWindow && localParticipant && (
+            <PictureInPictureCall
+              pipWindow={pictureInPicture.pipWindow}
+              isMuted={isMuted}
+              isVideoOff={isVideoOff}
+              onToggleMute={toggleMute}
+              onToggleVideo={toggleVideo}
+              onLeave={handleLeave}
+            >
+              <VideoLayout
+                isCompact
+                localParticipant={localParticipant}
+                remoteParticipants={participants}
+                activeSpeaker={activeSpeaker}
+                speakingIds={speakingIds}
+                isEncrypted={isEncrypted}
+                decryptionFailedIds={decryptionFailedIds}
+                hostId={hostId}
+                raisedHands={raisedHands}
+                spotlightIds={spotlightIds}
+                pinnedIds={pinnedIds}
+                viewMode={viewMode}
+                onViewModeChange={setViewMode}
+                onTileVisibilityChange={setTileVisible}
+                onDetachedChange={setDetachedParticipants}
+              />
+            </PictureInPictureCall>
+          )}
+
+          {/* Footer Controls */}
+          <footer className="h-16 sm:h-20 border-t border-neutral-800 bg-neutral-900/80 backdrop-blur-md flex items-center justify-center gap-2 sm:gap-4 px-3 shrink-0 z-10">
+            {/* Mute Button */}
             <button
-              onClick={copyRoomLink}
-              className="p-2 rounded-lg hover:bg-neutral-800 text-neutral-400 hover:text-white transition-colors"
-              title="Copy Link"
+              onClick={toggleMute}
+              className={cn(
+                "w-11 h-11 sm:w-12 sm:h-12 rounded-full flex items-center justify-center transition-all",
+                isMuted
+                  ? "bg-red-500 hover:bg-red-600 text-white"
+                  : "bg-neutral-700 hover:bg-neutral-600 text-white"
+              )}
+              title={isMuted ? "Unmute" : "Mute"}
             >
-              <Share className="w-4 h-4 sm:w-5 sm:h-5" />
+              {isMuted ? (
+                <MicOff className="w-5 h-5" />
+              ) : (
+                <Mic className="w-5 h-5" />
+              )}
             </button>
+
+            {/* Video Button */}
             <button
-              onClick={() => setIsSettingsOpen(true)}
+              onClick={toggleVideo}
               className={cn(
-                "p-2 rounded-lg transition-colors",
-                isSettingsOpen
-                  ? "bg-neutral-800 text-white"
-                  : "text-neutral-400 hover:bg-neutral-800 hover:text-white"
+                "w-11 h-11 sm:w-12 sm:h-12 rounded-full flex items-center justify-center transition-all",
+                isVideoOff
+                  ? "bg-red-500 hover:bg-red-600 text-white"
+                  : "bg-neutral-700 hover:bg-neutral-600 text-white"
               )}
-              title="Settings"
+              title={isVideoOff ? "Start Video" : "Stop Video"}
             >
-              <Settings className="w-4 h-4 sm:w-5 sm:h-5" />
+              {isVideoOff ? (
+                <VideoOff className="w-5 h-5" />
+              ) : (
+                <Video className="w-5 h-5" />
+              )}
             </button>
-          </div>
-        </header>
-
-        {/* Video Area */}
-        <main className="flex-1 min-h-0 p-2 sm:p-4 overflow-hidden">
-          {isConnecting || !localParticipant ? (
-            <div className="flex flex-col items-center justify-center h-full gap-4">
-              <Loader2 className="w-10 h-10 text-blue-500 animate-spin" />
-              <p className="text-neutral-400 font-medium text-sm">
-                Connecting to room...
-              </p>
-            </div>
-          ) : (
-            <VideoLayout
-              localParticipant={localParticipant}
-              remoteParticipants={participants}
-              activeSpeaker={activeSpeaker}
-              viewMode={viewMode}
-              onViewModeChange={setViewMode}
-            />
-          )}
-        </main>
-
-        {/* Footer Controls */}
-        <footer className="h-16 sm:h-20 border-t border-neutral-800 bg-neutral-900/80 backdrop-blur-md flex items-center justify-center gap-2 sm:gap-4 px-3 shrink-0 z-10">
-          {/* Mute Button */}
-          <button
-            onClick={toggleMute}
-            className={cn(
-              "w-11 h-11 sm:w-12 sm:h-12 rounded-full flex items-center justify-center transition-all",
-              isMuted
-                ? "bg-red-500 hover:bg-red-600 text-white"
-                : "bg-neutral-700 hover:bg-neutral-600 text-white"
-            )}
-            title={isMuted ? "Unmute" : "Mute"}
-          >
-            {isMuted ? (
-              <MicOff className="w-5 h-5" />
-            ) : (
-              <Mic className="w-5 h-5" />
-            )}
-          </button>
-
-          {/* Video Button */}
-          <button
-            onClick={toggleVideo}
-            className={cn(
-              "w-11 h-11 sm:w-12 sm:h-12 rounded-full flex items-center justify-center transition-all",
-              isVideoOff
-                ? "bg-red-500 hover:bg-red-600 text-white"
-                : "bg-neutral-700 hover:bg-neutral-600 text-white"
-            )}
-            title={isVideoOff ? "Start Video" : "Stop Video"}
-          >
-            {isVideoOff ? (
-              <VideoOff className="w-5 h-5" />
-            ) : (
-              <Video className="w-5 h-5" />
+
+            {/* Screen Share Button */}
+            {features.screenShare && (
+              <button
+                onClick={isScreenSharing ? stopScreenShare : startScreenShare}
+                className={cn(
+                  "w-11 h-11 sm:w-12 sm:h-12 rounded-full flex items-center justify-center transition-all",
+                  isScreenSharing
+                    ? "bg-blue-600 hover:bg-blue-700 text-white"
+                    : "bg-neutral-700 hover:bg-neutral-600 text-white"
+                )}
+                title={isScreenSharing ? "Stop Presenting" : "Present Screen"}
+              >
+                {isScreenSharing ? (
+                  <MonitorX className="w-5 h-5" />
+                ) : (
+                  <MonitorUp className="w-5 h-5" />
+                )}
+              </button>
             )}
-          </button>
-
-          <div className="w-px h-8 bg-neutral-700 mx-1 hidden sm:block" />
-
-          {/* Chat Button */}
-          <button
-            onClick={() => setIsChatOpen(!isChatOpen)}
-            className={cn(
-              "w-11 h-11 sm:w-12 sm:h-12 rounded-full flex items-center justify-center transition-all relative",
-              isChatOpen
-                ? "bg-blue-600 hover:bg-blue-700 text-white"
-                : "bg-neutral-700 hover:bg-neutral-600 text-white"
+
+            {/* Raise Hand Button */}
+            {features.raiseHand && (
+              <button
+                onClick={handleToggleHand}
+                className={cn(
+                  "w-11 h-11 sm:w-12 sm:h-12 rounded-full flex items-center justify-center transition-all",
+                  isHandRaised
+                    ? "bg-amber-400 hover:bg-amber-300 text-neutral-950"
+                    : "bg-neutral-700 hover:bg-neutral-600 text-white"
+                )}
+                title={isHandRaised ? "Lower Hand" : "Raise Hand"}
+              >
+                <Hand className="w-5 h-5" />
+              </button>
             )}
-            title="Chat"
-          >
-            <MessageSquare className="w-5 h-5" />
-          </button>
-
-          <div className="w-px h-8 bg-neutral-700 mx-1 hidden sm:block" />
-
-          {/* Leave Button */}
-          <button
-            onClick={handleLeave}
-            className="h-11 sm:h-12 px-4 sm:px-6 rounded-full bg-red-500 hover:bg-red-600 text-white font-semibold flex items-center gap-2 transition-colors"
-          >
-            <PhoneOff className="w-5 h-5" />
-            <span className="hidden sm:inline">Leave</span>
-          </button>
-        </footer>
-      </div>
 
-      {/* Chat Sidebar - Mobile: Full screen overlay, Desktop: Side panel */}
-      <AnimatePresence>
-        {isChatOpen && (
-          <motion.div
-            initial={{ x: "100%", opacity: 0 }}
-            animate={{ x: 0, opacity: 1 }}
-            exit={{ x: "100%", opacity: 0 }}
-            transition={{ type: "spring", damping: 25, stiffness: 300 }}
-            className={cn(
-              "bg-neutral-900 border-l border-neutral-800 z-30 flex flex-col",
-              // Mobile: full screen
-              "fixed inset-0 sm:static",
-              // Desktop: fixed width
-              "sm:w-80 lg:w-96"
+            {/* Mini Call Window Button */}
+            {pictureInPicture.isSupported && (
+              <button
+                onClick={
+                  pictureInPicture.isOpen
+                    ? pictureInPicture.close
+                    : pictureInPicture.open
+                }
+                className={cn(
+                  "w-11 h-11 sm:w-12 sm:h-12 rounded-full flex items-center justify-center transition-all",
+                  pictureInPicture.isOpen
+                    ? "bg-blue-600 hover:bg-blue-700 text-white"
+                    : "bg-neutral-700 hover:bg-neutral-600 text-white"
+                )}
+                title={
+                  pictureInPicture.isOpen ? "Close Mini Window" : "Pop Out Call"
+                }
+              >
+                <PictureInPicture2 className="w-5 h-5" />
+              </button>
             )}
-          >
-            {/* Mobile close button */}
-            <div className="sm:hidden flex items-center justify-between p-3 border-b border-neutral-800">
-              <h2 className="font-semibold text-lg">Chat</h2>
+
+            <div className="w-px h-8 bg-neutral-700 mx-1 hidden sm:block" />
+
+            {/* Chat Button */}
+            <button
+              onClick={() => toggleSidePanel("chat")}
+              className={cn(
+                "w-11 h-11 sm:w-12 sm:h-12 rounded-full flex items-center justify-center transition-all relative",
+                sidePanel === "chat"
+                  ? "bg-blue-600 hover:bg-blue-700 text-white"
+                  : "bg-neutral-700 hover:bg-neutral-600 text-white"
+              )}
+              title="Chat"
+            >
+              <MessageSquare className="w-5 h-5" />
+            </button>
+
+            <div className="w-px h-8 bg-neutral-700 mx-1 hidden sm:block" />
+
+            {/* Leave Button */}
+            <button
+              onClick={handleLeave}
+              className="h-11 sm:h-12 px-4 sm:px-6 rounded-full bg-red-500 hover:bg-red-600 text-white font-semibold flex items-center gap-2 transition-colors"
+            >
+              <PhoneOff className="w-5 h-5" />
+              <span className="hidden sm:inline">Leave</span>
+            </button>
+
+            {/* End for everyone (host only) */}
+            {hostControls && (
               <button
-                onClick={() => setIsChatOpen(false)}
-                className="p-2 hover:bg-neutral-800 rounded-lg transition-colors"
+                onClick={() => runHostAction(hostControls.endForAll)}
+                className="h-11 sm:h-12 px-4 rounded-full border border-red-500/50 text-red-400 hover:bg-red-500/10 font-semibold transition-colors"
+                title="End for Everyone"
               >
-                <X className="w-5 h-5" />
+                <span className="hidden sm:inline">End for all</span>
+                <span className="sm:hidden">End</span>
               </button>
-            </div>
-            <div className="flex-1 min-h-0">
-              {socket && (
-                <ChatSidebar
-                  roomId={roomId}
-                  socket={socket}
-                  isOpen={true}
-                  localUserName={userName}
-                  onClose={() => setIsChatOpen(false)}
-                />
+            )}
+          </footer>
+        </div>
+
+        {/* Side Panel - Mobile: Full screen overlay, Desktop: Side panel */}
+        <AnimatePresence>
+          {sidePanel && (
+            <motion.div
+              initial={{ x: "100%", opacity: 0 }}
+              animate={{ x: 0, opacity: 1 }}
+              exit={{ x: "100%", opacity: 0 }}
+              transition={{ type: "spring", damping: 25, stiffness: 300 }}
+              className={cn(
+                "bg-neutral-900 border-l border-neutral-800 z-30 flex flex-col",
+                // Mobile: full screen
+                "fixed inset-0 sm:static",
+                // Desktop: fixed width
+                "sm:w-80 lg:w-96"
               )}
-            </div>
-          </motion.div>
-        )}
-      </AnimatePresence>
-
-      <DeviceSettings
-        isOpen={isSettingsOpen}
-        onClose={() => setIsSettingsOpen(false)}
-        currentDevices={initialDevices}
-        onDeviceChange={handleDeviceChange}
-      />
-    </div>
+            >
+              {/* Mobile close button */}
+              <div className="sm:hidden flex items-center justify-between p-3 border-b border-neutral-800">
+                <h2 className="font-semibold text-lg">
+                  {SIDE_PANEL_TITLES[sidePanel]}
+                </h2>
+                <button
+                  onClick={() => setSidePanel(null)}
+                  className="p-2 hover:bg-neutral-800 rounded-lg transition-colors"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+              <div className="flex-1 min-h-0">
+                {sidePanel === "chat" && messenger && (
+                  <ChatSidebar
+                    messenger={messenger}
+                    isOpen={true}
+                    localUserName={userName}
+                    onClose={() => setSidePanel(null)}
+                  />
+                )}
+                {sidePanel === "people" && (
+                  <ParticipantsPanel
+                    localParticipant={localParticipant}
+                    participants={participants}
+                    speakingIds={speakingIds}
+                    connectionStats={connectionStats}
+                    hostId={hostId}
+                    hostControls={hostControls}
+                    raisedHands={raisedHands}
+                    onClose={() => setSidePanel(null)}
+                  />
+                )}
+                {sidePanel === "breakouts" && hostControls && (
+                  <BreakoutPanel
+                    breakouts={breakouts}
+                    localParticipant={localParticipant}
+                    participants={participants}
+                    hostControls={hostControls}
+                    onClose={() => setSidePanel(null)}
+                  />
+                )}
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        <DeviceSettings
+          isOpen={isSettingsOpen}
+          onClose={() => setIsSettingsOpen(false)}
+          currentDevices={currentDevices}
+          onDeviceChange={handleDeviceChange}
+          audioSettings={features.audioSettings ? audioSettings : undefined}
+          onAudioSettingsChange={setAudioSettings}
+          backgroundEffect={
+            features.backgroundEffects ? backgroundEffect : undefined
+          }
+          onBackgroundEffectChange={setBackgroundEffect}
+        />
+      </div>
+    </MediaSettingsProvider>
   );
 }
@@ -0,0 +1,78 @@
+"use client";
+
+import React from "react";
+import { Check, DoorOpen, X } from "lucide-react";
+import { AnimatePresence, motion } from "framer-motion";
+import type { HostControls, WaitingPeer } from "@/lib/conference";
+
+interface AdmissionQueueProps {
+  waitingPeers: WaitingPeer[];
+  hostControls: HostControls;
+}
+
+// The host's view of who is knocking, newest last
+export const AdmissionQueue = ({
+  waitingPeers,
+  hostControls,
+}: AdmissionQueueProps) => {
+  const run = (action: () => Promise<void>) => {
+    action().catch((err) => console.error("Admission failed:", err));
+  };
+
+  return (
+    <AnimatePresence>
+      {waitingPeers.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, x: 20 }}
+          animate={{ opacity: 1, x: 0 }}
+          exit={{ opacity: 0, x: 20 }}
+          className="absolute top-4 right-4 z-20 w-72 max-h-[60%] flex flex-col rounded-2xl bg-neutral-900/95 backdrop-blur-xl border border-neutral-700/50 shadow-2xl overflow-hidden"
+        >
+          <div className="flex items-center justify-between gap-2 px-4 py-3 border-b border-neutral-800">
+            <div className="flex items-center gap-2 text-sm font-semibold">
+              <DoorOpen className="w-4 h-4 text-blue-400" />
+              {waitingPeers.length === 1
+                ? "1 person is waiting"
+                : `${waitingPeers.length} people are waiting`}
+            </div>
+            {waitingPeers.length > 1 && (
+              <button
+                onClick={() => run(hostControls.admitAll)}
+                className="text-xs font-semibold text-blue-400 hover:text-blue-300 transition-colors"
+              >
+                Admit all
+              </button>
+            )}
+          </div>
+
+          <ul className="overflow-y-auto py-1">
+            {waitingPeers.map((peer) => (
+              <li
+                key={peer.id}
+                className="flex items-center gap-3 px-4 py-2 text-sm"
+              >
+                <span className="flex-1 truncate text-neutral-200">
+                  {peer.name}
+                </span>
+                <button
+                  onClick={() => run(() => hostControls.deny(peer.id))}
+                  className="p-1.5 rounded-lg text-neutral-400 hover:bg-red-500/10 hover:text-red-400 transition-colors"
+                  title={`Deny ${peer.name}`}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => run(() => hostControls.admit(peer.id))}
+                  className="p-1.5 rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+                  title={`Admit ${peer.name}`}
+                >
+                  <Check className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,140 @@
+"use client";
+
+import React, { useRef } from "react";
+import { Ban, ImagePlus, Sparkles } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  BackgroundEffect,
+  isSameEffect,
+  NO_BACKGROUND_EFFECT,
+} from "@/lib/backgroundProcessor";
+
+interface BackgroundPickerProps {
+  value: BackgroundEffect;
+  onChange: (effect: BackgroundEffect) => void;
+  className?: string;
+}
+
+const BACKGROUND_IMAGES = [
+  { name: "Dusk", src: "/backgrounds/dusk.svg" },
+  { name: "Lagoon", src: "/backgrounds/lagoon.svg" },
+  { name: "Grove", src: "/backgrounds/grove.svg" },
+];
+
+const OPTIONS: { label: string; effect: BackgroundEffect }[] = [
+  { label: "None", effect: NO_BACKGROUND_EFFECT },
+  { label: "Slight blur", effect: { type: "blur", level: "light" } },
+  { label: "Blur", effect: { type: "blur", level: "strong" } },
+  ...BACKGROUND_IMAGES.map(({ name, src }) => ({
+    label: name,
+    effect: { type: "image", src } as BackgroundEffect,
+  })),
+];
+
+export function BackgroundPicker({
+  value,
+  onChange,
+  className,
+}: BackgroundPickerProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const isCustomImage =
+    value.type === "image" &&
+    !BACKGROUND_IMAGES.some(({ src }) => src === value.src);
+
+  // An upload is freed once another background replaces it; there's no
+  // way back to it. The chosen one outlives the picker, since setup hands
+  // it on to the call.
+  const select = (effect: BackgroundEffect) => {
+    const previous = value;
+    onChange(effect);
+    if (
+      previous.type === "image" &&
+      previous.src.startsWith("blob:") &&
+      !isSameEffect(previous, effect)
+    ) {
+      URL.revokeObjectURL(previous.src);
+    }
+  };
+
+  const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    select({ type: "image", src: URL.createObjectURL(file) });
+  };
+
+  const renderPreview = (effect: BackgroundEffect) => {
+    if (effect.type === "image") {
+      // Blob URLs from uploads can't go through next/image
+      return (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={effect.src} alt="" className="w-full h-full object-cover" />
+      );
+    }
+    if (effect.type === "blur") {
+      return (
+        <div className="w-full h-full flex items-center justify-center bg-gradient-to-br from-neutral-500 to-neutral-700">
+          <Sparkles
+            className={cn(
+              "w-4 h-4 text-white",
+              effect.level === "strong" ? "blur-[1.5px]" : "blur-[0.5px]"
+            )}
+          />
+        </div>
+      );
+    }
+    return (
+      <div className="w-full h-full flex items-center justify-center bg-muted">
+        <Ban className="w-4 h-4 text-muted-foreground" />
+      </div>
+    );
+  };
+
+  return (
+    <div className={cn("grid grid-cols-4 gap-2", className)}>
+      {OPTIONS.map(({ label, effect }) => (
+        <button
+          key={label}
+          type="button"
+          onClick={() => select(effect)}
+          title={label}
+          className={cn(
+            "aspect-video rounded-lg overflow-hidden border-2 transition-all",
+            isSameEffect(value, effect)
+              ? "border-primary"
+              : "border-transparent hover:border-border"
+          )}
+        >
+          {renderPreview(effect)}
+        </button>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => fileInputRef.current?.click()}
+        title="Upload an image"
+        className={cn(
+          "aspect-video rounded-lg overflow-hidden border-2 transition-all",
+          isCustomImage
+            ? "border-primary"
+            : "border-dashed border-border hover:border-primary/50"
+        )}
+      >
+        {isCustomImage ? (
+          renderPreview(value)
+        ) : (
+          <div className="w-full h-full flex items-center justify-center">
+            <ImagePlus className="w-4 h-4 text-muted-foreground" />
+          </div>
+        )}
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        onChange={handleUpload}
+        className="hidden"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,340 @@
+"use client";
+
+import React, { useState } from "react";
+import { Megaphone, Send, Shuffle, Split, Timer, X } from "lucide-react";
+import { formatCountdown, useCountdown } from "@/hooks/useCountdown";
+import type {
+  BreakoutPlan,
+  BreakoutState,
+  HostControls,
+  VideoParticipant,
+} from "@/lib/conference";
+
+const MIN_ROOMS = 2;
+const MAX_ROOMS = 8;
+
+// In seconds; null leaves the breakouts open until the host closes them
+const DURATION_OPTIONS = [
+  { label: "No time limit", seconds: null },
+  { label: "5 minutes", seconds: 5 * 60 },
+  { label: "10 minutes", seconds: 10 * 60 },
+  { label: "15 minutes", seconds: 15 * 60 },
+  { label: "30 minutes", seconds: 30 * 60 },
+];
+
+const CLOSE_COUNTDOWN_OPTIONS = [
+  { label: "Close now", seconds: 0 },
+  { label: "Close in 30 seconds", seconds: 30 },
+  { label: "Close in 1 minute", seconds: 60 },
+];
+
+// What a select uses for the main room, which has no breakout id
+const MAIN_ROOM = "";
+
+const selectClassName =
+  "bg-neutral-800 border border-neutral-700 rounded-lg px-2 py-1.5 text-sm text-neutral-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50";
+
+const shuffle = <T,>(items: T[]) => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+interface BreakoutPanelProps {
+  breakouts: BreakoutState;
+  localParticipant: VideoParticipant | null;
+  participants: VideoParticipant[];
+  hostControls: HostControls;
+  onClose?: () => void;
+}
+
+// The host's breakout controls: plan and open rooms, then run them
+export const BreakoutPanel = ({
+  breakouts,
+  localParticipant,
+  participants,
+  hostControls,
+  onClose,
+}: BreakoutPanelProps) => {
+  const [roomCount, setRoomCount] = useState(MIN_ROOMS);
+  const [duration, setDuration] = useState<number | null>(null);
+  // Participant id to room index; anyone missing stays in the main room
+  const [assignments, setAssignments] = useState<Record<string, number>>({});
+  const [broadcast, setBroadcast] = useState("");
+  const [closeCountdown, setCloseCountdown] = useState(
+    CLOSE_COUNTDOWN_OPTIONS[1].seconds
+  );
+  const secondsLeft = useCountdown(breakouts.endsAt);
+  const isOpen = breakouts.rooms.length > 0;
+
+  const run = (action: () => Promise<void>) => {
+    action().catch((err) => console.error("Breakout action failed:", err));
+  };
+
+  // The host stays behind to keep an eye on every room
+  const assignRandomly = () => {
+    const next: Record<string, number> = {};
+    shuffle(participants).forEach((participant, index) => {
+      next[participant.id] = index % roomCount;
+    });
+    setAssignments(next);
+  };
+
+  const openBreakouts = () => {
+    const rooms: BreakoutPlan[] = Array.from(
+      { length: roomCount },
+      (_, index) => ({
+        name: `Room ${index + 1}`,
+        participantIds: Object.keys(assignments).filter(
+          (id) => assignments[id] === index
+        ),
+      })
+    );
+    run(() => hostControls.openBreakouts(rooms, duration));
+  };
+
+  const sendBroadcast = (e: React.FormEvent) => {
+    e.preventDefault();
+    const message = broadcast.trim();
+    if (!message) return;
+    run(async () => {
+      await hostControls.broadcastToBreakouts(message);
+      setBroadcast("");
+    });
+  };
+
+  const everyone = [
+    ...(localParticipant ? [localParticipant] : []),
+    ...participants,
+  ];
+  const inBreakouts = new Set(
+    breakouts.rooms.flatMap((room) => room.peers.map((peer) => peer.id))
+  );
+  const inMainRoom = everyone.filter((p) => !inBreakouts.has(p.id));
+
+  const renderMoveSelect = (peerId: string, breakoutId: string) => (
+    <select
+      value={breakoutId}
+      onChange={(e) =>
+        run(() => hostControls.moveToBreakout(peerId, e.target.value || null))
+      }
+      className={selectClassName}
+      aria-label="Move to"
+    >
+      <option value={MAIN_ROOM}>Main room</option>
+      {breakouts.rooms.map((room) => (
+        <option key={room.id} value={room.id}>
+          {room.name}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="flex flex-col h-full bg-neutral-900">
+      {/* Header - Hidden on mobile (parent handles it) */}
+      <div className="hidden sm:flex p-4 border-b border-neutral-800 items-center justify-between bg-neutral-900/80 backdrop-blur-sm shrink-0">
+        <h2 className="font-semibold text-base text-white">Breakouts</h2>
+        {onClose && (
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-neutral-800 rounded-lg transition-colors text-neutral-400 hover:text-white"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {!isOpen ? (
+        <>
+          <div className="p-4 space-y-3 border-b border-neutral-800 shrink-0">
+            <div className="flex items-center justify-between gap-3 text-sm">
+              <label htmlFor="breakout-count" className="text-neutral-400">
+                Rooms
+              </label>
+              <select
+                id="breakout-count"
+                value={roomCount}
+                onChange={(e) => setRoomCount(Number(e.target.value))}
+                className={selectClassName}
+              >
+                {Array.from(
+                  { length: MAX_ROOMS - MIN_ROOMS + 1 },
+                  (_, index) => MIN_ROOMS + index
+                ).map((count) => (
+                  <option key={count} value={count}>
+                    {count}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center justify-between gap-3 text-sm">
+              <label htmlFor="breakout-duration" className="text-neutral-400">
+                Duration
+              </label>
+              <select
+                id="breakout-duration"
+                value={duration ?? ""}
+                onChange={(e) =>
+                  setDuration(e.target.value ? Number(e.target.value) : null)
+                }
+                className={selectClassName}
+              >
+                {DURATION_OPTIONS.map(({ label, seconds }) => (
+                  <option key={label} value={seconds ?? ""}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button
+              onClick={assignRandomly}
+              disabled={participants.length === 0}
+              className="w-full flex items-center justify-center gap-2 py-2 rounded-lg bg-neutral-800 hover:bg-neutral-700 text-sm font-medium transition-colors disabled:opacity-50"
+            >
+              <Shuffle className="w-4 h-4" />
+              Assign randomly
+            </button>
+          </div>
+
+          <ul className="flex-1 overflow-y-auto p-2 min-h-0">
+            {participants.length === 0 && (
+              <li className="py-8 text-center text-sm text-neutral-500">
+                Nobody else is here yet
+              </li>
+            )}
+            {participants.map((participant) => {
+              const assigned = assignments[participant.id];
+              return (
+                <li
+                  key={participant.id}
+                  className="flex items-center gap-3 px-2 py-1.5 text-sm"
+                >
+                  <span className="flex-1 truncate text-neutral-200">
+                    {participant.name}
+                  </span>
+                  <select
+                    value={
+                      assigned !== undefined && assigned < roomCount
+                        ? assigned
+                        : MAIN_ROOM
+                    }
+                    onChange={(e) => {
+                      const { value } = e.target;
+                      setAssignments((prev) => {
+                        const next = { ...prev };
+                        if (value === MAIN_ROOM) delete next[participant.id];
+                        else next[participant.id] = Number(value);
+                        return next;
+                      });
+                    }}
+                    className={selectClassName}
+                    aria-label={`Room for ${participant.name}`}
+                  >
+                    <option value={MAIN_ROOM}>Main room</option>
+                    {Array.from({ length: roomCount }, (_, index) => (
+                      <option key={index} value={index}>
+                        Room {index + 1}
+                      </option>
+                    ))}
+                  </select>
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="p-3 border-t border-neutral-800 shrink-0">
+            <button
+              onClick={openBreakouts}
+              className="w-full flex items-center justify-center gap-2 py-2.5 rounded-full bg-blue-600 hover:bg-blue-700 text-sm font-semibold transition-colors"
+            >
+              <Split className="w-4 h-4" />
+              Open breakouts
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="flex-1 overflow-y-auto p-2 min-h-0 space-y-2">
+            {secondsLeft !== null && (
+              <div className="flex items-center gap-2 mx-2 mt-2 px-3 py-2 rounded-lg bg-amber-500/10 text-sm text-amber-300">
+                <Timer className="w-4 h-4" />
+                Everyone returns in {formatCountdown(secondsLeft)}
+              </div>
+            )}
+            {[
+              { id: MAIN_ROOM, name: "Main room", peers: inMainRoom },
+              ...breakouts.rooms,
+            ].map((room) => (
+              <section key={room.id} className="px-2 py-1">
+                <h3 className="py-1 text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                  {room.name} ({room.peers.length})
+                </h3>
+                <ul>
+                  {room.peers.map((peer) => (
+                    <li
+                      key={peer.id}
+                      className="flex items-center gap-3 py-1.5 text-sm"
+                    >
+                      <span className="flex-1 truncate text-neutral-200">
+                        {peer.id === localParticipant?.id ? "You" : peer.name}
+                      </span>
+                      {renderMoveSelect(peer.id, room.id)}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            ))}
+          </div>
+
+          <div className="p-3 border-t border-neutral-800 shrink-0 space-y-3">
+            <form onSubmit={sendBroadcast} className="flex items-center gap-2">
+              <div className="relative flex-1">
+                <Megaphone className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-neutral-500" />
+                <input
+                  value={broadcast}
+                  onChange={(e) => setBroadcast(e.target.value)}
+                  placeholder="Message every room"
+                  className="w-full bg-neutral-800 text-white pl-9 pr-4 py-2 rounded-full text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50 placeholder:text-neutral-500"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={!broadcast.trim()}
+                className="p-2 bg-blue-600 text-white rounded-full hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shrink-0"
+                title="Broadcast"
+              >
+                <Send className="w-4 h-4" />
+              </button>
+            </form>
+            <div className="flex items-center gap-2">
+              <select
+                value={closeCountdown}
+                onChange={(e) => setCloseCountdown(Number(e.target.value))}
+                className={selectClassName}
+                aria-label="When to close"
+              >
+                {CLOSE_COUNTDOWN_OPTIONS.map(({ label, seconds }) => (
+                  <option key={seconds} value={seconds}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() =>
+                  run(() => hostControls.closeBreakouts(closeCountdown))
+                }
+                className="flex-1 py-2 rounded-full border border-red-500/50 text-red-400 hover:bg-red-500/10 text-sm font-semibold transition-colors"
+              >
+                Close breakouts
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
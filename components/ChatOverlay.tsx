@@ -3,12 +3,11 @@
 import React, { useEffect, useState, useRef } from "react";
 import { Send, Smile } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
-import type { Socket } from "socket.io-client";
 import { cn } from "@/lib/utils";
+import type { ReceivedRoomEvent, RoomMessenger } from "@/lib/roomEvents";
 
 interface ChatOverlayProps {
-  socket: Socket | null;
-  roomId: string;
+  messenger: RoomMessenger | null;
 }
 
 interface Message {
@@ -20,16 +19,16 @@ interface Message {
 
 const REACTIONS = ["😂", "🔥", "❤️", "👀", "👏", "😮"];
 
-export function ChatOverlay({ socket, roomId }: ChatOverlayProps) {
+export function ChatOverlay({ messenger }: ChatOverlayProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState("");
   const [showReactions, setShowReactions] = useState(false);
   const bottomRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
-    if (!socket) return;
+    if (!messenger) return;
 
-    const handleReceiveMessage = (data: { sender: string; message: string; timestamp: number }) => {
+    const handleReceiveMessage = (data: ReceivedRoomEvent<"message">) => {
       setMessages((prev) => [
         ...prev,
         { id: Math.random().toString(36), text: data.message, sender: "them", timestamp: data.timestamp },
@@ -38,7 +37,7 @@ export function ChatOverlay({ socket, roomId }: ChatOverlayProps) {
       setTimeout(() => bottomRef.current?.scrollIntoView({ behavior: "smooth" }), 100);
     };
 
-    const handleReceiveReaction = (data: { sender: string; reaction: string }) => {
+    const handleReceiveReaction = (data: ReceivedRoomEvent<"reaction">) => {
       // Create a floating reaction element (simplified as just logging or toast for now, 
       // ideally we'd spawn a floating element)
       // For MVP, letting it appear in chat or just float up.
@@ -51,21 +50,19 @@ export function ChatOverlay({ socket, roomId }: ChatOverlayProps) {
       setTimeout(() => bottomRef.current?.scrollIntoView({ behavior: "smooth" }), 100);
     };
 
-    socket.on("receive-message", handleReceiveMessage);
-    socket.on("receive-reaction", handleReceiveReaction);
+    const unsubscribers = [
+      messenger.on("message", handleReceiveMessage),
+      messenger.on("reaction", handleReceiveReaction),
+    ];
 
-    return () => {
-      socket.off("receive-message", handleReceiveMessage);
-      socket.off("receive-reaction", handleReceiveReaction);
-    };
-  }, [socket]);
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [messenger]);
 
   const handleSendMessage = (e?: React.FormEvent) => {
     e?.preventDefault();
-    if (!newMessage.trim() || !socket) return;
+    if (!newMessage.trim() || !messenger) return;
 
-    const msgData = { roomId, message: newMessage, timestamp: Date.now() };
-    socket.emit("send-message", msgData);
+    messenger.send("message", { message: newMessage, timestamp: Date.now() });
 
     // Optimistic update
     setMessages((prev) => [
@@ -77,8 +74,8 @@ export function ChatOverlay({ socket, roomId }: ChatOverlayProps) {
   };
 
   const sendReaction = (reaction: string) => {
-    if (!socket) return;
-    socket.emit("send-reaction", { roomId, reaction });
+    if (!messenger) return;
+    messenger.send("reaction", { reaction });
     // Show locally
     setMessages((prev) => [
         ...prev,
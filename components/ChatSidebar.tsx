@@ -3,12 +3,11 @@
 import React, { useEffect, useState, useRef } from "react";
 import { Send, SmilePlus, X } from "lucide-react";
 import { AnimatePresence, motion } from "framer-motion";
-import type { Socket } from "socket.io-client";
 import { cn } from "@/lib/utils";
+import type { ReceivedRoomEvent, RoomMessenger } from "@/lib/roomEvents";
 
 interface ChatSidebarProps {
-  socket: Socket | null;
-  roomId: string;
+  messenger: RoomMessenger | null;
   isOpen?: boolean;
   onClose?: () => void;
   localUserName?: string;
@@ -42,8 +41,7 @@ const formatTime = (timestamp: number) => {
 };
 
 export function ChatSidebar({
-  socket,
-  roomId,
+  messenger,
   isOpen,
   onClose,
   localUserName = "You",
@@ -54,14 +52,9 @@ export function ChatSidebar({
   const bottomRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
-    if (!socket) return;
+    if (!messenger) return;
 
-    const handleReceiveMessage = (data: {
-      sender: string;
-      senderName: string;
-      message: string;
-      timestamp: number;
-    }) => {
+    const handleReceiveMessage = (data: ReceivedRoomEvent<"message">) => {
       setMessages((prev) => [
         ...prev,
         {
@@ -79,11 +72,7 @@ export function ChatSidebar({
       );
     };
 
-    const handleReceiveReaction = (data: {
-      sender: string;
-      senderName: string;
-      reaction: string;
-    }) => {
+    const handleReceiveReaction = (data: ReceivedRoomEvent<"reaction">) => {
       setMessages((prev) => [
         ...prev,
         {
@@ -101,28 +90,27 @@ export function ChatSidebar({
       );
     };
 
-    socket.on("receive-message", handleReceiveMessage);
-    socket.on("receive-reaction", handleReceiveReaction);
+    const unsubscribers = [
+      messenger.on("message", handleReceiveMessage),
+      messenger.on("reaction", handleReceiveReaction),
+    ];
 
-    return () => {
-      socket.off("receive-message", handleReceiveMessage);
-      socket.off("receive-reaction", handleReceiveReaction);
-    };
-  }, [socket]);
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [messenger]);
 
   const handleSendMessage = (e?: React.FormEvent) => {
     e?.preventDefault();
-    if (!newMessage.trim() || !socket) return;
+    if (!newMessage.trim() || !messenger) return;
 
     const timestamp = Date.now();
-    socket.emit("send-message", { roomId, message: newMessage, timestamp });
+    messenger.send("message", { message: newMessage, timestamp });
 
     setMessages((prev) => [
       ...prev,
       {
         id: Math.random().toString(36),
         text: newMessage,
-        senderId: socket.id || "me",
+        senderId: "me",
         senderName: localUserName,
         timestamp,
         isReaction: false,
@@ -136,14 +124,14 @@ export function ChatSidebar({
   };
 
   const sendReaction = (reaction: string) => {
-    if (!socket) return;
-    socket.emit("send-reaction", { roomId, reaction });
+    if (!messenger) return;
+    messenger.send("reaction", { reaction });
     setMessages((prev) => [
       ...prev,
       {
         id: Math.random().toString(36),
         text: reaction,
-        senderId: socket.id || "me",
+        senderId: "me",
         senderName: localUserName,
         timestamp: Date.now(),
         isReaction: true,
@@ -180,7 +168,7 @@ export function ChatSidebar({
         )}
         <AnimatePresence mode="popLayout">
           {messages.map((msg) => {
-            const isMe = msg.senderId === socket?.id || msg.senderId === "me";
+            const isMe = msg.senderId === "me";
             return (
               <motion.div
                 key={msg.id}
@@ -0,0 +1,155 @@
+"use client";
+
+import React, { useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { cn } from "@/lib/utils";
+import type {
+  ConnectionQuality,
+  ConnectionStats,
+  MediaStats,
+} from "@/lib/conference";
+
+interface ConnectionIndicatorProps {
+  stats: ConnectionStats;
+  isLocal?: boolean;
+}
+
+const QUALITY_BARS: Record<ConnectionQuality, number> = {
+  excellent: 4,
+  good: 3,
+  poor: 2,
+  bad: 1,
+  unknown: 0,
+};
+
+const QUALITY_COLORS: Record<ConnectionQuality, string> = {
+  excellent: "bg-green-400",
+  good: "bg-green-400",
+  poor: "bg-amber-400",
+  bad: "bg-red-500",
+  unknown: "bg-neutral-500",
+};
+
+const LIMITATION_LABELS: Record<RTCQualityLimitationReason, string> = {
+  none: "Nothing",
+  bandwidth: "Bandwidth",
+  cpu: "CPU",
+  other: "Other",
+};
+
+const formatBitrate = (bitrate: number) =>
+  bitrate >= 1_000_000
+    ? `${(bitrate / 1_000_000).toFixed(1)} Mbps`
+    : `${Math.round(bitrate / 1000)} kbps`;
+
+const formatMedia = (media: MediaStats | null, kind: "audio" | "video") => {
+  if (!media) return "—";
+  const parts = [formatBitrate(media.bitrate)];
+  if (kind === "video" && media.frameWidth && media.frameHeight) {
+    parts.push(`${media.frameWidth}×${media.frameHeight}`);
+  }
+  if (kind === "video" && media.framesPerSecond) {
+    parts.push(`${Math.round(media.framesPerSecond)} fps`);
+  }
+  return parts.join(" · ");
+};
+
+// Signal-strength bars, also used where there's no room for the details
+export const ConnectionBars = ({
+  quality,
+  className,
+}: {
+  quality: ConnectionQuality;
+  className?: string;
+}) => (
+  <span className={cn("flex items-end gap-0.5", className)}>
+    {[1, 2, 3, 4].map((level) => (
+      <span
+        key={level}
+        className={cn(
+          "w-1 rounded-full transition-colors",
+          level <= QUALITY_BARS[quality]
+            ? QUALITY_COLORS[quality]
+            : "bg-white/20"
+        )}
+        style={{ height: `${level * 25}%` }}
+      />
+    ))}
+  </span>
+);
+
+export const ConnectionIndicator = ({
+  stats,
+  isLocal = false,
+}: ConnectionIndicatorProps) => {
+  const [showDetails, setShowDetails] = useState(false);
+
+  const packetLoss = Math.max(
+    stats.audio?.packetLoss ?? 0,
+    stats.video?.packetLoss ?? 0
+  );
+  const jitter = Math.max(stats.audio?.jitter ?? 0, stats.video?.jitter ?? 0);
+
+  const rows = [
+    { label: "Video", value: formatMedia(stats.video, "video") },
+    { label: "Audio", value: formatMedia(stats.audio, "audio") },
+    { label: "Packet loss", value: `${packetLoss.toFixed(1)}%` },
+    { label: "Jitter", value: `${Math.round(jitter)} ms` },
+    {
+      label: "Round trip",
+      value: stats.rtt !== null ? `${Math.round(stats.rtt)} ms` : "—",
+    },
+    ...(isLocal
+      ? [
+          {
+            label: "Limited by",
+            value: LIMITATION_LABELS[stats.qualityLimitationReason ?? "none"],
+          },
+          {
+            label: "Available uplink",
+            value:
+              stats.availableOutgoingBitrate !== undefined
+                ? formatBitrate(stats.availableOutgoingBitrate)
+                : "—",
+          },
+        ]
+      : []),
+  ];
+
+  return (
+    <div className="relative pointer-events-auto">
+      <button
+        onClick={() => setShowDetails(!showDetails)}
+        className="flex h-6 px-1.5 py-1 rounded-md bg-black/40 backdrop-blur-xl border border-white/10"
+        title={`Connection: ${stats.quality}`}
+      >
+        <ConnectionBars quality={stats.quality} className="h-full" />
+      </button>
+
+      <AnimatePresence>
+        {showDetails && (
+          <motion.div
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            className="absolute left-0 top-full mt-1.5 w-56 p-3 rounded-xl bg-neutral-900/95 backdrop-blur-xl border border-neutral-700/50 shadow-2xl text-[11px] z-20"
+          >
+            <p className="mb-2 font-semibold text-neutral-200 capitalize">
+              {isLocal ? "Your uplink" : "Connection"}: {stats.quality}
+            </p>
+            <dl className="space-y-1">
+              {rows.map(({ label, value }) => (
+                <div key={label} className="flex justify-between gap-2">
+                  <dt className="text-neutral-400">{label}</dt>
+                  <dd className="text-neutral-100 font-medium text-right">
+                    {value}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
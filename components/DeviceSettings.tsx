@@ -1,9 +1,21 @@
 "use client";
 
 import React, { useEffect, useState } from "react";
-import { Settings, X, Mic, Video as VideoIcon, Volume2 } from "lucide-react";
+import {
+  Settings,
+  X,
+  Mic,
+  Video as VideoIcon,
+  Volume2,
+  Wand2,
+  Music,
+} from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
-import { DeviceSelections } from "@/hooks/useMediasoup";
+import type { AudioSettings, DeviceSelections } from "@/lib/conference";
+import { useMediaSettings } from "@/contexts/MediaSettingsContext";
+import type { BackgroundEffect } from "@/lib/backgroundProcessor";
+import { BackgroundPicker } from "./BackgroundPicker";
+import { SettingToggle } from "./SettingToggle";
 import { ChevronDown } from "lucide-react";
 
 interface DeviceSettingsProps {
@@ -11,18 +23,39 @@ interface DeviceSettingsProps {
   onClose: () => void;
   currentDevices: DeviceSelections;
   onDeviceChange?: (kind: keyof DeviceSelections, deviceId: string) => void;
+  audioSettings?: AudioSettings;
+  // Rejects when the mic couldn't take the new settings
+  onAudioSettingsChange?: (settings: AudioSettings) => Promise<void>;
+  backgroundEffect?: BackgroundEffect;
+  onBackgroundEffectChange?: (effect: BackgroundEffect) => void;
 }
 
+const PROCESSING_OPTIONS: {
+  key: Exclude<keyof AudioSettings, "musicMode">;
+  label: string;
+}[] = [
+  { key: "echoCancellation", label: "Echo cancellation" },
+  { key: "noiseSuppression", label: "Noise suppression" },
+  { key: "autoGainControl", label: "Automatic gain" },
+];
+
 export const DeviceSettings = ({
   isOpen,
   onClose,
   currentDevices,
   onDeviceChange,
+  audioSettings,
+  onAudioSettingsChange,
+  backgroundEffect,
+  onBackgroundEffectChange,
 }: DeviceSettingsProps) => {
   const [audioInputs, setAudioInputs] = useState<MediaDeviceInfo[]>([]);
   const [videoInputs, setVideoInputs] = useState<MediaDeviceInfo[]>([]);
   const [audioOutputs, setAudioOutputs] = useState<MediaDeviceInfo[]>([]);
   const [activeTab, setActiveTab] = useState<"audio" | "video">("audio");
+  const [audioSettingsError, setAudioSettingsError] = useState(false);
+  const { isAudioOutputSupported } = useMediaSettings();
+  const canSelectOutput = isAudioOutputSupported && audioOutputs.length > 0;
 
   useEffect(() => {
     const getDevices = async () => {
@@ -48,6 +81,11 @@ export const DeviceSettings = ({
     }
   }, [isOpen]);
 
+  const handleAudioSettingsChange = (settings: AudioSettings) => {
+    setAudioSettingsError(false);
+    onAudioSettingsChange?.(settings).catch(() => setAudioSettingsError(true));
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -165,9 +203,9 @@ export const DeviceSettings = ({
                       onChange={(e) =>
                         onDeviceChange?.("audioOutput", e.target.value)
                       }
-                      disabled={audioOutputs.length === 0}
+                      disabled={!canSelectOutput}
                     >
-                      {audioOutputs.length === 0 ? (
+                      {!canSelectOutput ? (
                         <option value="">System Default</option>
                       ) : (
                         audioOutputs.map((device) => (
@@ -180,13 +218,53 @@ export const DeviceSettings = ({
                     </select>
                     <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground pointer-events-none" />
                   </div>
-                  {audioOutputs.length === 0 && (
+                  {!canSelectOutput && (
                     <p className="text-xs text-muted-foreground">
-                      Audio output selection is only available on supported
-                      browsers (e.g. Chrome).
+                      This browser plays call audio through the system default
+                      speaker. Choosing one needs e.g. Chrome or Edge.
                     </p>
                   )}
                 </div>
+
+                {audioSettings && onAudioSettingsChange && (
+                  <div className="space-y-3 pt-2 border-t border-border">
+                    <label className="text-sm font-medium flex items-center gap-2 text-muted-foreground">
+                      <Music className="w-4 h-4" />
+                      Sound
+                    </label>
+                    <SettingToggle
+                      label="Music mode"
+                      description="Original sound in stereo at higher quality. Use headphones, as echo cancellation is off."
+                      checked={audioSettings.musicMode}
+                      onChange={(musicMode) =>
+                        handleAudioSettingsChange({
+                          ...audioSettings,
+                          musicMode,
+                        })
+                      }
+                    />
+                    {PROCESSING_OPTIONS.map(({ key, label }) => (
+                      <SettingToggle
+                        key={key}
+                        label={label}
+                        checked={audioSettings[key] && !audioSettings.musicMode}
+                        disabled={audioSettings.musicMode}
+                        onChange={(checked) =>
+                          handleAudioSettingsChange({
+                            ...audioSettings,
+                            [key]: checked,
+                          })
+                        }
+                      />
+                    ))}
+                    {audioSettingsError && (
+                      <p className="text-xs text-red-400">
+                        Your microphone couldn&apos;t switch to these settings,
+                        so the previous ones were kept.
+                      </p>
+                    )}
+                  </div>
+                )}
               </motion.div>
             ) : (
               <motion.div
@@ -219,6 +297,19 @@ export const DeviceSettings = ({
                     <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground pointer-events-none" />
                   </div>
                 </div>
+
+                {backgroundEffect && onBackgroundEffectChange && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium flex items-center gap-2 text-muted-foreground">
+                      <Wand2 className="w-4 h-4" />
+                      Background
+                    </label>
+                    <BackgroundPicker
+                      value={backgroundEffect}
+                      onChange={onBackgroundEffectChange}
+                    />
+                  </div>
+                )}
               </motion.div>
             )}
           </AnimatePresence>
@@ -0,0 +1,90 @@
+"use client";
+
+import React from "react";
+import { Hand, Megaphone, X } from "lucide-react";
+import { AnimatePresence, motion } from "framer-motion";
+import type { HostControls, VideoParticipant } from "@/lib/conference";
+
+interface HandQueueProps {
+  raisedHands: string[];
+  localParticipant: VideoParticipant | null;
+  participants: VideoParticipant[];
+  // Only the host can lower other hands and call on people
+  hostControls: HostControls | null;
+}
+
+// Who's waiting to speak, in order, for everyone to see
+export const HandQueue = ({
+  raisedHands,
+  localParticipant,
+  participants,
+  hostControls,
+}: HandQueueProps) => {
+  const run = (action: () => Promise<unknown>) => {
+    action().catch((err) => console.error("Hand action failed:", err));
+  };
+
+  const getName = (id: string) =>
+    id === localParticipant?.id
+      ? "You"
+      : participants.find((p) => p.id === id)?.name ?? "Someone";
+
+  return (
+    <AnimatePresence>
+      {raisedHands.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 20 }}
+          className="absolute bottom-4 left-4 z-20 w-60 max-h-[50%] flex flex-col rounded-2xl bg-neutral-900/95 backdrop-blur-xl border border-neutral-700/50 shadow-2xl overflow-hidden"
+        >
+          <div className="flex items-center justify-between gap-2 px-4 py-3 border-b border-neutral-800">
+            <div className="flex items-center gap-2 text-sm font-semibold">
+              <Hand className="w-4 h-4 text-amber-400" />
+              Raised hands
+            </div>
+            {hostControls && (
+              <button
+                onClick={() => run(hostControls.callOnNext)}
+                className="flex items-center gap-1 text-xs font-semibold text-blue-400 hover:text-blue-300 transition-colors"
+                title="Call on the first person in line"
+              >
+                <Megaphone className="w-3.5 h-3.5" />
+                Call on next
+              </button>
+            )}
+          </div>
+
+          <ol className="overflow-y-auto py-1">
+            {raisedHands.map((id, index) => (
+              <li
+                key={id}
+                className="flex items-center gap-3 px-4 py-1.5 text-sm"
+              >
+                <span className="w-4 text-xs font-bold text-amber-400">
+                  {index + 1}
+                </span>
+                <span className="flex-1 truncate text-neutral-200">
+                  {getName(id)}
+                </span>
+                {hostControls && (
+                  <button
+                    onClick={() => run(() => hostControls.lowerHand(id))}
+                    className="p-1 rounded-lg text-neutral-400 hover:bg-white/5 hover:text-white transition-colors"
+                    title={
+                      id === localParticipant?.id
+                        ? "Lower your hand"
+                        : `Lower ${getName(id)}'s hand`
+                    }
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ol>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
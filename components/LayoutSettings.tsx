@@ -0,0 +1,138 @@
+"use client";
+
+import React from "react";
+import { createPortal } from "react-dom";
+import { RotateCcw, SlidersHorizontal } from "lucide-react";
+import { motion } from "framer-motion";
+import { cn } from "@/lib/utils";
+import { SettingToggle } from "./SettingToggle";
+import { usePopover } from "@/hooks/usePopover";
+import {
+  LayoutPreferences,
+  TILE_WIDTH_RANGE,
+  TILES_PER_PAGE_OPTIONS,
+} from "@/lib/layoutPreferences";
+
+interface LayoutSettingsProps {
+  layout: LayoutPreferences;
+  onLayoutChange: (changes: Partial<LayoutPreferences>) => void;
+}
+
+// Where the slider sits while the grid still sizes tiles itself
+const AUTO_TILE_WIDTH = 280;
+// Matches w-72, to keep the popover on screen
+const MENU_WIDTH = 288;
+
+// The layout popover next to the view mode selector
+export const LayoutSettings = ({
+  layout,
+  onLayoutChange,
+}: LayoutSettingsProps) => {
+  const { anchor, buttonRef, menuRef, toggle } = usePopover();
+
+  return (
+    <>
+      <button
+        ref={buttonRef}
+        onClick={toggle}
+        className={cn(
+          "p-2.5 rounded-2xl border border-white/5 backdrop-blur-xl shadow-2xl transition-colors",
+          anchor
+            ? "bg-blue-600/20 text-blue-400"
+            : "bg-neutral-900/40 text-neutral-400 hover:text-neutral-200"
+        )}
+        title="Layout"
+      >
+        <SlidersHorizontal className="w-4 h-4" />
+      </button>
+
+      {anchor &&
+        createPortal(
+          <motion.div
+            ref={menuRef}
+            initial={{ opacity: 0, scale: 0.95, y: -4 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            transition={{ duration: 0.15 }}
+            style={{
+              top: anchor.bottom + 8,
+              left: Math.max(
+                8,
+                Math.min(anchor.left, window.innerWidth - 8 - MENU_WIDTH)
+              ),
+            }}
+            className="fixed z-50 w-72 p-4 space-y-4 rounded-2xl bg-neutral-900/95 backdrop-blur-xl border border-neutral-700/50 shadow-2xl text-white"
+          >
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <label htmlFor="layout-tile-width">Tile size</label>
+                {layout.tileWidth === null ? (
+                  <span className="text-xs text-neutral-500">Auto</span>
+                ) : (
+                  <button
+                    onClick={() => onLayoutChange({ tileWidth: null })}
+                    className="text-xs text-blue-400 hover:text-blue-300"
+                  >
+                    Reset to auto
+                  </button>
+                )}
+              </div>
+              <input
+                id="layout-tile-width"
+                type="range"
+                min={TILE_WIDTH_RANGE.min}
+                max={TILE_WIDTH_RANGE.max}
+                step={TILE_WIDTH_RANGE.step}
+                value={layout.tileWidth ?? AUTO_TILE_WIDTH}
+                onChange={(e) =>
+                  onLayoutChange({ tileWidth: Number(e.target.value) })
+                }
+                className="w-full accent-blue-500"
+              />
+            </div>
+
+            <SettingToggle
+              label="Hide people without video"
+              description="They can still be heard"
+              checked={layout.hideNonVideo}
+              onChange={(hideNonVideo) => onLayoutChange({ hideNonVideo })}
+            />
+            <SettingToggle
+              label="Hide self view"
+              description="Others still see you"
+              checked={layout.hideSelfView}
+              onChange={(hideSelfView) => onLayoutChange({ hideSelfView })}
+            />
+
+            <div className="flex items-center justify-between gap-3 text-sm">
+              <label htmlFor="layout-tiles-per-page">Tiles per page</label>
+              <select
+                id="layout-tiles-per-page"
+                value={layout.maxTilesPerPage}
+                onChange={(e) =>
+                  onLayoutChange({ maxTilesPerPage: Number(e.target.value) })
+                }
+                className="bg-neutral-800 border border-neutral-700 rounded-lg px-2 py-1 text-sm text-neutral-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+              >
+                {TILES_PER_PAGE_OPTIONS.map((count) => (
+                  <option key={count} value={count}>
+                    {count}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {layout.tileOrder.length > 0 && (
+              <button
+                onClick={() => onLayoutChange({ tileOrder: [] })}
+                className="w-full flex items-center justify-center gap-2 py-2 rounded-lg bg-neutral-800 hover:bg-neutral-700 text-sm font-medium transition-colors"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Reset tile order
+              </button>
+            )}
+          </motion.div>,
+          document.body
+        )}
+    </>
+  );
+};
@@ -0,0 +1,33 @@
+"use client";
+
+import React, { useEffect, useRef } from "react";
+import { useMediaSettings } from "@/contexts/MediaSettingsContext";
+
+interface ParticipantAudioProps {
+  track: MediaStreamTrack | null;
+}
+
+// Plays a remote audio track through the selected output device
+export const ParticipantAudio = ({ track }: ParticipantAudioProps) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const { audioOutputId, isAudioOutputSupported } = useMediaSettings();
+
+  useEffect(() => {
+    const audioEl = audioRef.current;
+    if (!audioEl) return;
+    audioEl.srcObject = track ? new MediaStream([track]) : null;
+  }, [track]);
+
+  useEffect(() => {
+    const audioEl = audioRef.current;
+    if (!audioEl || !isAudioOutputSupported) return;
+
+    audioEl.setSinkId(audioOutputId).catch((error) => {
+      // The device may have been unplugged; the default output beats silence
+      console.error("Error switching audio output:", error);
+      audioEl.setSinkId("").catch(() => {});
+    });
+  }, [audioOutputId, isAudioOutputSupported]);
+
+  return <audio ref={audioRef} autoPlay />;
+};
@@ -0,0 +1,129 @@
+"use client";
+
+import React from "react";
+import { createPortal } from "react-dom";
+import {
+  Crown,
+  EllipsisVertical,
+  MicOff,
+  Sparkles,
+  UserX,
+  VideoOff,
+} from "lucide-react";
+import { motion } from "framer-motion";
+import { cn } from "@/lib/utils";
+import { usePopover } from "@/hooks/usePopover";
+import type { HostControls, VideoParticipant } from "@/lib/conference";
+
+interface ParticipantMenuProps {
+  participant: VideoParticipant;
+  hostControls: HostControls;
+  isSpotlit?: boolean;
+  // Left out where the backend has no spotlight
+  onToggleSpotlight?: () => Promise<void>;
+  className?: string;
+}
+
+// The host's actions for one remote participant
+export const ParticipantMenu = ({
+  participant,
+  hostControls,
+  isSpotlit = false,
+  onToggleSpotlight,
+  className,
+}: ParticipantMenuProps) => {
+  // Tiles clip, so the menu is portaled out
+  const { anchor, buttonRef, menuRef, toggle, close } = usePopover();
+
+  const actions = [
+    {
+      label: "Mute mic",
+      icon: MicOff,
+      hidden: participant.isMuted,
+      run: hostControls.muteParticipant,
+    },
+    {
+      label: "Stop camera",
+      icon: VideoOff,
+      hidden: participant.isVideoOff,
+      run: hostControls.stopParticipantVideo,
+    },
+    {
+      label: isSpotlit ? "Remove spotlight" : "Spotlight for everyone",
+      icon: Sparkles,
+      hidden: !onToggleSpotlight,
+      run: async () => onToggleSpotlight?.(),
+    },
+    {
+      label: "Make host",
+      icon: Crown,
+      hidden: false,
+      run: hostControls.makeHost,
+    },
+    {
+      label: "Remove",
+      icon: UserX,
+      hidden: false,
+      danger: true,
+      run: hostControls.removeParticipant,
+    },
+  ];
+
+  const handleAction = async (
+    run: (participantId: string) => Promise<void>
+  ) => {
+    close();
+    try {
+      await run(participant.id);
+    } catch (err) {
+      console.error("Host action failed:", err);
+    }
+  };
+
+  return (
+    <div className={className}>
+      <button
+        ref={buttonRef}
+        onClick={toggle}
+        className="p-1.5 rounded-lg bg-black/40 backdrop-blur-xl border border-white/10 text-white hover:bg-black/60 transition-colors"
+        title={`Manage ${participant.name}`}
+      >
+        <EllipsisVertical className="w-3.5 h-3.5" />
+      </button>
+
+      {anchor &&
+        createPortal(
+          <motion.div
+            ref={menuRef}
+            initial={{ opacity: 0, scale: 0.95, y: -4 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            transition={{ duration: 0.15 }}
+            style={{
+              top: anchor.bottom + 4,
+              right: window.innerWidth - anchor.right,
+            }}
+            className="fixed z-50 min-w-[160px] py-1 rounded-xl bg-neutral-900/95 backdrop-blur-xl border border-neutral-700/50 shadow-2xl"
+          >
+            {actions
+              .filter((action) => !action.hidden)
+              .map(({ label, icon: Icon, danger, run }) => (
+                <button
+                  key={label}
+                  onClick={() => handleAction(run)}
+                  className={cn(
+                    "w-full flex items-center gap-2.5 px-3 py-2 text-sm transition-colors",
+                    danger
+                      ? "text-red-400 hover:bg-red-500/10"
+                      : "text-neutral-200 hover:bg-white/5"
+                  )}
+                >
+                  <Icon className="w-4 h-4" />
+                  {label}
+                </button>
+              ))}
+          </motion.div>,
+          document.body
+        )}
+    </div>
+  );
+};
@@ -0,0 +1,193 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  Crown,
+  Hand,
+  Mic,
+  MicOff,
+  Search,
+  Video,
+  VideoOff,
+  X,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { ConnectionBars } from "./ConnectionIndicator";
+import { ParticipantMenu } from "./ParticipantMenu";
+import type {
+  ConnectionStats,
+  HostControls,
+  VideoParticipant,
+} from "@/lib/conference";
+
+// Below this many people the list is short enough to scan by eye
+const SEARCH_THRESHOLD = 8;
+
+interface ParticipantsPanelProps {
+  localParticipant: VideoParticipant | null;
+  participants: VideoParticipant[];
+  speakingIds: string[];
+  connectionStats: Record<string, ConnectionStats>;
+  hostId: string | null;
+  hostControls: HostControls | null;
+  raisedHands: string[];
+  onClose?: () => void;
+}
+
+const formatJoinTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+// Everyone in the call, us first and then in the order they joined
+export const ParticipantsPanel = ({
+  localParticipant,
+  participants,
+  speakingIds,
+  connectionStats,
+  hostId,
+  hostControls,
+  raisedHands,
+  onClose,
+}: ParticipantsPanelProps) => {
+  const [query, setQuery] = useState("");
+
+  const everyone = [
+    ...(localParticipant ? [localParticipant] : []),
+    ...[...participants].sort((a, b) => a.joinedAt - b.joinedAt),
+  ];
+  // A search left over from a bigger call stops applying with its box
+  const isSearchShown = everyone.length > SEARCH_THRESHOLD;
+  const normalizedQuery = isSearchShown ? query.trim().toLowerCase() : "";
+  const shown = normalizedQuery
+    ? everyone.filter((p) => p.name.toLowerCase().includes(normalizedQuery))
+    : everyone;
+
+  return (
+    <div className="flex flex-col h-full bg-neutral-900">
+      {/* Header - Hidden on mobile (parent handles it) */}
+      <div className="hidden sm:flex p-4 border-b border-neutral-800 items-center justify-between bg-neutral-900/80 backdrop-blur-sm shrink-0">
+        <h2 className="font-semibold text-base text-white">
+          People ({everyone.length})
+        </h2>
+        {onClose && (
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-neutral-800 rounded-lg transition-colors text-neutral-400 hover:text-white"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {isSearchShown && (
+        <div className="p-3 border-b border-neutral-800 shrink-0">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-neutral-500" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search people"
+              className="w-full bg-neutral-800 text-white pl-9 pr-4 py-2 rounded-full text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50 placeholder:text-neutral-500"
+            />
+          </div>
+        </div>
+      )}
+
+      <ul className="flex-1 overflow-y-auto p-2 min-h-0">
+        {shown.length === 0 && (
+          <li className="py-8 text-center text-sm text-neutral-500">
+            Nobody matches &ldquo;{query}&rdquo;
+          </li>
+        )}
+        {shown.map((participant) => {
+          const isLocal = participant.id === localParticipant?.id;
+          const isSpeaking = speakingIds.includes(participant.id);
+          const stats = connectionStats[participant.id];
+          const handPosition = raisedHands.indexOf(participant.id) + 1;
+
+          return (
+            <li
+              key={participant.id}
+              className="flex items-center gap-3 px-2 py-2 rounded-xl hover:bg-white/5 transition-colors"
+            >
+              {/* Avatar, ringed while speaking */}
+              <div
+                className={cn(
+                  "w-9 h-9 shrink-0 rounded-full bg-gradient-to-br from-neutral-700 to-neutral-900 flex items-center justify-center text-sm font-bold text-neutral-200 transition-shadow",
+                  isSpeaking
+                    ? "ring-2 ring-green-500 ring-offset-2 ring-offset-neutral-900"
+                    : "ring-1 ring-neutral-700/50"
+                )}
+              >
+                {participant.name.charAt(0).toUpperCase()}
+              </div>
+
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-1.5 text-sm font-medium text-white">
+                  <span className="truncate">{participant.name}</span>
+                  {isLocal && (
+                    <span className="shrink-0 font-normal text-neutral-500">
+                      (You)
+                    </span>
+                  )}
+                  {participant.id === hostId && (
+                    <Crown
+                      className="w-3.5 h-3.5 shrink-0 text-amber-400"
+                      aria-label="Host"
+                    />
+                  )}
+                </div>
+                <p className="text-xs text-neutral-500">
+                  {isSpeaking
+                    ? "Speaking"
+                    : `Joined ${formatJoinTime(participant.joinedAt)}`}
+                </p>
+              </div>
+
+              <div className="flex items-center gap-2 shrink-0 text-neutral-400">
+                {handPosition > 0 && (
+                  <span
+                    className="flex items-center gap-0.5 text-xs font-bold text-amber-400"
+                    title={`Hand raised, #${handPosition} in line`}
+                  >
+                    <Hand className="w-4 h-4" />
+                    {handPosition}
+                  </span>
+                )}
+                {stats && (
+                  <span title={`Connection: ${stats.quality}`}>
+                    <ConnectionBars quality={stats.quality} className="h-3.5" />
+                  </span>
+                )}
+                {participant.isMuted ? (
+                  <MicOff className="w-4 h-4 text-red-400" aria-label="Muted" />
+                ) : (
+                  <Mic
+                    className={cn("w-4 h-4", isSpeaking && "text-green-400")}
+                    aria-label="Mic on"
+                  />
+                )}
+                {participant.isVideoOff ? (
+                  <VideoOff
+                    className="w-4 h-4 text-red-400"
+                    aria-label="Camera off"
+                  />
+                ) : (
+                  <Video className="w-4 h-4" aria-label="Camera on" />
+                )}
+                {hostControls && !isLocal && (
+                  <ParticipantMenu
+                    participant={participant}
+                    hostControls={hostControls}
+                  />
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
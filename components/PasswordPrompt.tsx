@@ -0,0 +1,93 @@
+"use client";
+
+import React, { useState } from "react";
+import { KeyRound, Loader2 } from "lucide-react";
+import { motion } from "framer-motion";
+import type { InviteStatus } from "@/lib/conference";
+
+const INVITE_PROBLEMS: Partial<Record<InviteStatus, string>> = {
+  expired: "Your invite link has expired.",
+  "used-up": "Your invite link has already been used up.",
+  invalid: "Your invite link isn't valid.",
+};
+
+interface PasswordPromptProps {
+  // Set when we came with an invite that didn't work
+  inviteStatus?: InviteStatus;
+  // Resolves to whether the password was right
+  onSubmit: (password: string) => Promise<boolean>;
+}
+
+// Asked before the setup screen when the room has a password
+export const PasswordPrompt = ({
+  inviteStatus,
+  onSubmit,
+}: PasswordPromptProps) => {
+  const [password, setPassword] = useState("");
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password || isChecking) return;
+
+    setIsChecking(true);
+    setError(null);
+    try {
+      if (!(await onSubmit(password))) setError("Wrong password");
+    } catch (err) {
+      console.error("Password check failed:", err);
+      setError("Couldn't reach the server, try again");
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const inviteProblem = inviteStatus && INVITE_PROBLEMS[inviteStatus];
+
+  return (
+    <div className="flex items-center justify-center min-h-screen p-6 bg-background">
+      <motion.form
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.4, ease: "easeOut" }}
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm space-y-6"
+      >
+        <div className="space-y-1">
+          <h1 className="text-2xl font-bold">This baithak has a password</h1>
+          <p className="text-muted-foreground text-sm">
+            {inviteProblem && `${inviteProblem} `}
+            Ask the host for the password, or for a new invite link.
+          </p>
+        </div>
+
+        <div className="space-y-1.5">
+          <label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            Room password
+          </label>
+          <div className="relative">
+            <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoFocus
+              className="w-full p-3 pl-10 rounded-lg bg-card border border-border text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all"
+            />
+          </div>
+          {error && <p className="text-xs text-destructive">{error}</p>}
+        </div>
+
+        <button
+          type="submit"
+          disabled={!password || isChecking}
+          className="w-full py-3 rounded-full bg-primary text-primary-foreground font-semibold hover:brightness-110 transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-lg shadow-primary/20 flex items-center justify-center gap-2"
+        >
+          {isChecking && <Loader2 className="w-4 h-4 animate-spin" />}
+          Continue
+        </button>
+      </motion.form>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+"use client";
+
+import React from "react";
+import { createPortal } from "react-dom";
+import { Mic, MicOff, PhoneOff, Video, VideoOff } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface PictureInPictureCallProps {
+  pipWindow: Window;
+  isMuted: boolean;
+  isVideoOff: boolean;
+  onToggleMute: () => void;
+  onToggleVideo: () => void;
+  onLeave: () => void;
+  // The compact layout
+  children: React.ReactNode;
+}
+
+// The mini call window's contents, rendered into the picture-in-picture
+// document. It stays part of the page's tree, so context still reaches it.
+export const PictureInPictureCall = ({
+  pipWindow,
+  isMuted,
+  isVideoOff,
+  onToggleMute,
+  onToggleVideo,
+  onLeave,
+  children,
+}: PictureInPictureCallProps) =>
+  createPortal(
+    <div className="flex flex-col h-screen bg-neutral-950 text-white">
+      <div className="flex-1 min-h-0 p-2">{children}</div>
+
+      <div className="flex items-center justify-center gap-2 pb-2 shrink-0">
+        <button
+          onClick={onToggleMute}
+          className={cn(
+            "w-9 h-9 rounded-full flex items-center justify-center transition-all",
+            isMuted
+              ? "bg-red-500 hover:bg-red-600 text-white"
+              : "bg-neutral-700 hover:bg-neutral-600 text-white"
+          )}
+          title={isMuted ? "Unmute" : "Mute"}
+        >
+          {isMuted ? (
+            <MicOff className="w-4 h-4" />
+          ) : (
+            <Mic className="w-4 h-4" />
+          )}
+        </button>
+        <button
+          onClick={onToggleVideo}
+          className={cn(
+            "w-9 h-9 rounded-full flex items-center justify-center transition-all",
+            isVideoOff
+              ? "bg-red-500 hover:bg-red-600 text-white"
+              : "bg-neutral-700 hover:bg-neutral-600 text-white"
+          )}
+          title={isVideoOff ? "Start Video" : "Stop Video"}
+        >
+          {isVideoOff ? (
+            <VideoOff className="w-4 h-4" />
+          ) : (
+            <Video className="w-4 h-4" />
+          )}
+        </button>
+        <button
+          onClick={onLeave}
+          className="h-9 px-4 rounded-full bg-red-500 hover:bg-red-600 text-white flex items-center transition-colors"
+          title="Leave"
+        >
+          <PhoneOff className="w-4 h-4" />
+        </button>
+      </div>
+    </div>,
+    pipWindow.document.body
+  );
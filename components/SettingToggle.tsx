@@ -0,0 +1,52 @@
+"use client";
+
+import React from "react";
+import { cn } from "@/lib/utils";
+
+export const SettingToggle = ({
+  label,
+  description,
+  checked,
+  disabled = false,
+  onChange,
+}: {
+  label: string;
+  description?: string;
+  checked: boolean;
+  disabled?: boolean;
+  onChange: (checked: boolean) => void;
+}) => (
+  <label
+    className={cn(
+      "flex items-start justify-between gap-4 cursor-pointer",
+      disabled && "opacity-50 cursor-not-allowed"
+    )}
+  >
+    <span className="space-y-0.5">
+      <span className="block text-sm">{label}</span>
+      {description && (
+        <span className="block text-xs text-muted-foreground">
+          {description}
+        </span>
+      )}
+    </span>
+    <button
+      type="button"
+      role="switch"
+      aria-checked={checked}
+      disabled={disabled}
+      onClick={() => onChange(!checked)}
+      className={cn(
+        "relative shrink-0 w-9 h-5 rounded-full transition-colors",
+        checked ? "bg-primary" : "bg-secondary"
+      )}
+    >
+      <span
+        className={cn(
+          "absolute top-0.5 left-0.5 w-4 h-4 rounded-full bg-white shadow transition-transform",
+          checked && "translate-x-4"
+        )}
+      />
+    </button>
+  </label>
+);
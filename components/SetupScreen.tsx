@@ -1,6 +1,11 @@
 "use client";
 
-import React, { useEffect, useRef, useState } from "react";
+import React, {
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
 import {
   Mic,
   MicOff,
@@ -8,11 +13,21 @@ import {
   VideoOff,
   ChevronDown,
   Flame,
+  Lock,
   User,
   Volume2,
+  Wand2,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { motion } from "framer-motion";
+import { useAudioOutputSupport } from "@/contexts/MediaSettingsContext";
+import { useBackgroundProcessor } from "@/hooks/useBackgroundProcessor";
+import { BackgroundPicker } from "./BackgroundPicker";
+import {
+  BackgroundEffect,
+  NO_BACKGROUND_EFFECT,
+} from "@/lib/backgroundProcessor";
+import { getPassphraseFromHash } from "@/lib/e2ee";
 
 interface DeviceSelections {
   audioInput: string;
@@ -26,11 +41,23 @@ interface SetupScreenProps {
     userName: string,
     isMuted: boolean,
     isVideoOff: boolean,
-    devices: DeviceSelections
+    devices: DeviceSelections,
+    backgroundEffect: BackgroundEffect,
+    e2eePassphrase: string
   ) => void;
+  // Whether the conference backend can encrypt with a room passphrase
+  allowEncryption?: boolean;
 }
 
-export function SetupScreen({ onJoin }: SetupScreenProps) {
+const subscribeToHash = (onChange: () => void) => {
+  window.addEventListener("hashchange", onChange);
+  return () => window.removeEventListener("hashchange", onChange);
+};
+
+export function SetupScreen({
+  onJoin,
+  allowEncryption = false,
+}: SetupScreenProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const [stream, setStream] = useState<MediaStream | null>(null);
   const [isMuted, setIsMuted] = useState(false);
@@ -43,6 +70,23 @@ export function SetupScreen({ onJoin }: SetupScreenProps) {
   const [selectedAudio, setSelectedAudio] = useState("");
   const [selectedVideo, setSelectedVideo] = useState("");
   const [selectedOutput, setSelectedOutput] = useState("");
+  const isAudioOutputSupported = useAudioOutputSupport();
+  const outputDevices = devices.filter((d) => d.kind === "audiooutput");
+  const canSelectOutput = isAudioOutputSupported && outputDevices.length > 0;
+  const [backgroundEffect, setBackgroundEffect] =
+    useState<BackgroundEffect>(NO_BACKGROUND_EFFECT);
+  // Invite links carry the passphrase; typing one overrides it
+  const linkPassphrase = useSyncExternalStore(
+    subscribeToHash,
+    () => getPassphraseFromHash(window.location.hash),
+    () => ""
+  );
+  const [typedPassphrase, setTypedPassphrase] = useState<string | null>(null);
+  const passphrase = allowEncryption ? typedPassphrase ?? linkPassphrase : "";
+  const processedTrack = useBackgroundProcessor(
+    stream?.getVideoTracks()[0] ?? null,
+    backgroundEffect
+  );
 
   // Request permissions first, then enumerate devices
   useEffect(() => {
@@ -125,6 +169,15 @@ export function SetupScreen({ onJoin }: SetupScreenProps) {
     switchStream();
   }, [selectedAudio, selectedVideo, permissionGranted]);
 
+  // Preview the effect as others will see it once the model is ready
+  useEffect(() => {
+    const videoEl = videoRef.current;
+    if (!videoEl || !stream) return;
+    videoEl.srcObject = processedTrack
+      ? new MediaStream([processedTrack])
+      : stream;
+  }, [stream, processedTrack]);
+
   const toggleMute = () => {
     if (stream) {
       stream.getAudioTracks().forEach((t) => (t.enabled = !t.enabled));
@@ -141,11 +194,19 @@ export function SetupScreen({ onJoin }: SetupScreenProps) {
 
   const handleJoinClick = () => {
     if (stream && userName.trim()) {
-      onJoin(stream, userName.trim(), isMuted, isVideoOff, {
-        audioInput: selectedAudio,
-        videoInput: selectedVideo,
-        audioOutput: selectedOutput,
-      });
+      onJoin(
+        stream,
+        userName.trim(),
+        isMuted,
+        isVideoOff,
+        {
+          audioInput: selectedAudio,
+          videoInput: selectedVideo,
+          audioOutput: canSelectOutput ? selectedOutput : "",
+        },
+        backgroundEffect,
+        passphrase
+      );
     }
   };
 
@@ -290,6 +351,35 @@ export function SetupScreen({ onJoin }: SetupScreenProps) {
           </div>
         </motion.div>
 
+        {/* Room Passphrase */}
+        {allowEncryption && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.48 }}
+            className="space-y-1.5"
+          >
+            <label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+              Room Passphrase
+            </label>
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setTypedPassphrase(e.target.value)}
+                placeholder="Optional"
+                autoComplete="off"
+                className="w-full p-3 pl-10 rounded-lg bg-card border border-border text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all"
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Encrypts audio and video end to end. Everyone in the room needs
+              the same passphrase.
+            </p>
+          </motion.div>
+        )}
+
         {/* Device Selectors */}
         <div className="space-y-4">
           <motion.div
@@ -358,20 +448,45 @@ export function SetupScreen({ onJoin }: SetupScreenProps) {
             </label>
             <div className="relative">
               <select
-                value={selectedOutput}
+                value={canSelectOutput ? selectedOutput : ""}
                 onChange={(e) => setSelectedOutput(e.target.value)}
-                className="w-full p-3 pr-10 rounded-lg bg-card border border-border text-foreground text-sm appearance-none focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all"
+                disabled={!canSelectOutput}
+                className="w-full p-3 pr-10 rounded-lg bg-card border border-border text-foreground text-sm appearance-none focus:outline-none focus:ring-2 focus:ring-primary/20 transition-all disabled:opacity-60"
               >
-                {devices
-                  .filter((d) => d.kind === "audiooutput")
-                  .map((d) => (
+                {canSelectOutput ? (
+                  outputDevices.map((d) => (
                     <option key={d.deviceId} value={d.deviceId}>
                       {d.label || `Speaker ${d.deviceId.slice(0, 5)}`}
                     </option>
-                  ))}
+                  ))
+                ) : (
+                  <option value="">System Default</option>
+                )}
               </select>
               <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground pointer-events-none" />
             </div>
+            {!canSelectOutput && (
+              <p className="text-xs text-muted-foreground">
+                This browser plays call audio through the system default
+                speaker.
+              </p>
+            )}
+          </motion.div>
+
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.68 }}
+            className="space-y-1.5"
+          >
+            <label className="text-xs font-medium text-muted-foreground uppercase tracking-wider flex items-center gap-1.5">
+              <Wand2 className="w-3.5 h-3.5" />
+              Background
+            </label>
+            <BackgroundPicker
+              value={backgroundEffect}
+              onChange={setBackgroundEffect}
+            />
           </motion.div>
         </div>
 
@@ -0,0 +1,237 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { Check, KeyRound, Link, Share, Ticket } from "lucide-react";
+import { motion } from "framer-motion";
+import { usePopover } from "@/hooks/usePopover";
+import type { HostControls, InviteOptions } from "@/lib/conference";
+
+const EXPIRY_OPTIONS = [
+  { label: "1 hour", seconds: 60 * 60 },
+  { label: "1 day", seconds: 24 * 60 * 60 },
+  { label: "7 days", seconds: 7 * 24 * 60 * 60 },
+];
+
+const MAX_USE_OPTIONS = [
+  { label: "1 person", maxUses: 1 },
+  { label: "5 people", maxUses: 5 },
+  { label: "25 people", maxUses: 25 },
+  { label: "Unlimited", maxUses: null },
+];
+
+const COPIED_DURATION_MS = 2000;
+
+type LinkKind = "room" | "invite";
+
+interface ShareMenuProps {
+  // Only the host can mint invites and set a password
+  hostControls: HostControls | null;
+  hasPassword: boolean;
+  // Builds the shareable URL, with an invite token when given one
+  getLink: (invite?: string) => string;
+}
+
+const selectClassName =
+  "w-full p-2 rounded-lg bg-neutral-800 border border-neutral-700 text-sm text-neutral-200 focus:outline-none focus:ring-2 focus:ring-blue-500/30";
+
+// The header's share button. Everyone else just copies the room link.
+export const ShareMenu = ({
+  hostControls,
+  hasPassword,
+  getLink,
+}: ShareMenuProps) => {
+  const { anchor, buttonRef, menuRef, toggle } = usePopover();
+  const [copied, setCopied] = useState<LinkKind | null>(null);
+  const [invite, setInvite] = useState<InviteOptions>({
+    expiresIn: EXPIRY_OPTIONS[1].seconds,
+    maxUses: MAX_USE_OPTIONS[0].maxUses,
+  });
+  const [password, setPassword] = useState("");
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(null), COPIED_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const copyLink = async (kind: LinkKind, inviteToken?: string) => {
+    await navigator.clipboard.writeText(getLink(inviteToken));
+    setCopied(kind);
+  };
+
+  const run = (action: () => Promise<void>) => {
+    action().catch((err) => console.error("Share action failed:", err));
+  };
+
+  const handleButtonClick = () => {
+    if (!hostControls) {
+      run(() => copyLink("room"));
+      return;
+    }
+    toggle();
+  };
+
+  const handleSetPassword = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!hostControls || !password) return;
+    run(async () => {
+      await hostControls.setPassword(password);
+      setPassword("");
+    });
+  };
+
+  return (
+    <>
+      <button
+        ref={buttonRef}
+        onClick={handleButtonClick}
+        className="p-2 rounded-lg hover:bg-neutral-800 text-neutral-400 hover:text-white transition-colors"
+        title={hostControls ? "Share" : "Copy Link"}
+      >
+        {copied && !anchor ? (
+          <Check className="w-4 h-4 sm:w-5 sm:h-5 text-green-400" />
+        ) : (
+          <Share className="w-4 h-4 sm:w-5 sm:h-5" />
+        )}
+      </button>
+
+      {anchor &&
+        hostControls &&
+        createPortal(
+          <motion.div
+            ref={menuRef}
+            initial={{ opacity: 0, scale: 0.95, y: -4 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            transition={{ duration: 0.15 }}
+            style={{
+              top: anchor.bottom + 8,
+              right: Math.max(8, window.innerWidth - anchor.right),
+            }}
+            className="fixed z-50 w-72 rounded-2xl bg-neutral-900/95 backdrop-blur-xl border border-neutral-700/50 shadow-2xl text-white divide-y divide-neutral-800"
+          >
+            {/* Plain room link */}
+            <div className="p-3">
+              <button
+                onClick={() => run(() => copyLink("room"))}
+                className="w-full flex items-center gap-3 p-2 rounded-lg text-left hover:bg-white/5 transition-colors"
+              >
+                {copied === "room" ? (
+                  <Check className="w-4 h-4 shrink-0 text-green-400" />
+                ) : (
+                  <Link className="w-4 h-4 shrink-0 text-neutral-400" />
+                )}
+                <span className="flex-1">
+                  <span className="block text-sm font-medium">
+                    Copy room link
+                  </span>
+                  <span className="block text-xs text-neutral-500">
+                    {hasPassword
+                      ? "Guests will need the password"
+                      : "Anyone with the link can join"}
+                  </span>
+                </span>
+              </button>
+            </div>
+
+            {/* Invite link */}
+            <div className="p-3 space-y-2">
+              <p className="text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                Invite link
+              </p>
+              <div className="flex gap-2">
+                <select
+                  value={invite.expiresIn}
+                  onChange={(e) =>
+                    setInvite((prev) => ({
+                      ...prev,
+                      expiresIn: Number(e.target.value),
+                    }))
+                  }
+                  className={selectClassName}
+                  aria-label="Expires after"
+                >
+                  {EXPIRY_OPTIONS.map(({ label, seconds }) => (
+                    <option key={seconds} value={seconds}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={invite.maxUses ?? ""}
+                  onChange={(e) =>
+                    setInvite((prev) => ({
+                      ...prev,
+                      maxUses: e.target.value ? Number(e.target.value) : null,
+                    }))
+                  }
+                  className={selectClassName}
+                  aria-label="Can be used by"
+                >
+                  {MAX_USE_OPTIONS.map(({ label, maxUses }) => (
+                    <option key={label} value={maxUses ?? ""}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <button
+                onClick={() =>
+                  run(async () =>
+                    copyLink("invite", await hostControls.createInvite(invite))
+                  )
+                }
+                className="w-full flex items-center justify-center gap-2 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-sm font-semibold transition-colors"
+              >
+                {copied === "invite" ? (
+                  <Check className="w-4 h-4" />
+                ) : (
+                  <Ticket className="w-4 h-4" />
+                )}
+                {copied === "invite" ? "Copied" : "Copy invite link"}
+              </button>
+            </div>
+
+            {/* Room password */}
+            <div className="p-3 space-y-2">
+              <p className="text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                Room password
+              </p>
+              {hasPassword ? (
+                <div className="flex items-center gap-2 text-sm">
+                  <KeyRound className="w-4 h-4 text-green-400" />
+                  <span className="flex-1 text-neutral-200">
+                    Password is on
+                  </span>
+                  <button
+                    onClick={() => run(() => hostControls.setPassword(null))}
+                    className="text-xs font-semibold text-red-400 hover:text-red-300 transition-colors"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ) : (
+                <form onSubmit={handleSetPassword} className="flex gap-2">
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder="Set a password"
+                    className="flex-1 min-w-0 p-2 rounded-lg bg-neutral-800 border border-neutral-700 text-sm text-neutral-200 placeholder:text-neutral-500 focus:outline-none focus:ring-2 focus:ring-blue-500/30"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!password}
+                    className="px-3 rounded-lg bg-neutral-700 hover:bg-neutral-600 text-sm font-semibold transition-colors disabled:opacity-50"
+                  >
+                    Set
+                  </button>
+                </form>
+              )}
+            </div>
+          </motion.div>,
+          document.body
+        )}
+    </>
+  );
+};
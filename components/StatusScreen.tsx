@@ -0,0 +1,37 @@
+"use client";
+
+import React from "react";
+import { cn } from "@/lib/utils";
+
+interface StatusScreenProps {
+  icon: React.ReactNode;
+  title: string;
+  message: React.ReactNode;
+  isError?: boolean;
+  actionLabel: string;
+  onAction: () => void;
+}
+
+// Full-page state shown instead of the call: errors, the lobby, being sent away
+export const StatusScreen = ({
+  icon,
+  title,
+  message,
+  isError = false,
+  actionLabel,
+  onAction,
+}: StatusScreenProps) => (
+  <div className="flex flex-col items-center justify-center min-h-screen gap-4 bg-neutral-950 text-white p-4">
+    <div className="text-6xl">{icon}</div>
+    <h2 className={cn("text-xl font-bold", isError && "text-red-400")}>
+      {title}
+    </h2>
+    <p className="text-neutral-400 text-center max-w-md">{message}</p>
+    <button
+      onClick={onAction}
+      className="px-6 py-2.5 bg-blue-600 text-white rounded-full hover:bg-blue-700 transition-colors font-medium"
+    >
+      {actionLabel}
+    </button>
+  </div>
+);
@@ -1,117 +1,521 @@
 "use client";
 
-import React from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { VideoTile, VideoParticipant } from "./VideoTile";
+import { ParticipantAudio } from "./ParticipantAudio";
+import { LayoutSettings } from "./LayoutSettings";
+import { useRecentSpeakers } from "@/hooks/useRecentSpeakers";
 import { cn } from "@/lib/utils";
-import { ViewMode } from "@/hooks/useMediasoup";
-import { Grid3x3, User, LayoutGrid } from "lucide-react";
-import { AnimatePresence, motion } from "framer-motion";
+import {
+  DEFAULT_LAYOUT_PREFERENCES,
+  LayoutPreferences,
+} from "@/lib/layoutPreferences";
+import type {
+  ConnectionStats,
+  HostControls,
+  TileSize,
+  ViewMode,
+} from "@/lib/conference";
+import {
+  Grid3x3,
+  User,
+  LayoutGrid,
+  MonitorUp,
+  PinOff,
+  Sparkles,
+  ChevronLeft,
+  ChevronRight,
+  GripVertical,
+} from "lucide-react";
+import {
+  AnimatePresence,
+  motion,
+  useDragControls,
+  type Point,
+} from "framer-motion";
 
 interface VideoLayoutProps {
   localParticipant: VideoParticipant | null;
   remoteParticipants: VideoParticipant[];
   activeSpeaker: VideoParticipant | null;
+  speakingIds: string[];
+  connectionStats?: Record<string, ConnectionStats>;
+  isEncrypted?: boolean;
+  decryptionFailedIds?: string[];
+  hostId?: string | null;
+  hostControls?: HostControls | null;
+  raisedHands?: string[];
+  // Featured for everyone by the host
+  spotlightIds?: string[];
+  // Featured just for us
+  pinnedIds?: string[];
+  onTogglePin?: (participantId: string) => void;
+  onClearPins?: () => void;
   viewMode: ViewMode;
   onViewModeChange: (mode: ViewMode) => void;
+  onTileSizeChange?: (participantId: string, size: TileSize) => void;
+  onTileVisibilityChange?: (participantId: string, isVisible: boolean) => void;
+  layout?: LayoutPreferences;
+  // Leave out to keep the layout fixed
+  onLayoutChange?: (changes: Partial<LayoutPreferences>) => void;
+  // Remote participants without a tile, whose video can stop
+  onDetachedChange?: (participantIds: string[]) => void;
+  // For the mini call window: only whoever matters most, with no controls.
+  // Audio is left to the full layout, which stays mounted.
+  isCompact?: boolean;
 }
 
+// A screen share rendered as its own tile, keyed apart from the camera tile
+const toScreenParticipant = (
+  participant: VideoParticipant
+): VideoParticipant => ({
+  ...participant,
+  id: `${participant.id}-screen`,
+  videoTrack: participant.screenTrack,
+  audioTrack: participant.screenAudioTrack,
+  screenTrack: null,
+  screenAudioTrack: null,
+  isMuted: !participant.screenAudioTrack,
+  isVideoOff: false,
+});
+
+interface ArrangeableTileProps {
+  participantId: string;
+  className?: string;
+  // Where the tile was let go, in page coordinates
+  onDrop?: (point: Point) => void;
+  ref?: React.Ref<HTMLDivElement>;
+  children: React.ReactNode;
+}
+
+// A tile that can be dragged by its handle, so touch scrolling still works
+// everywhere else on it
+const ArrangeableTile = ({
+  participantId,
+  className,
+  onDrop,
+  ref,
+  children,
+}: ArrangeableTileProps) => {
+  const dragControls = useDragControls();
+
+  return (
+    <motion.div
+      ref={ref}
+      layout
+      data-tile-id={participantId}
+      drag={!!onDrop}
+      dragControls={dragControls}
+      dragListener={false}
+      dragSnapToOrigin
+      dragMomentum={false}
+      whileDrag={{ scale: 1.03, zIndex: 30 }}
+      onDragEnd={(_, info) => onDrop?.(info.point)}
+      className={cn("relative group", className)}
+    >
+      {children}
+      {onDrop && (
+        <button
+          onPointerDown={(e) => dragControls.start(e)}
+          className="absolute bottom-3 right-3 z-20 p-1.5 rounded-lg bg-black/40 backdrop-blur-xl border border-white/10 text-white opacity-0 group-hover:opacity-100 focus-visible:opacity-100 cursor-grab active:cursor-grabbing touch-none transition-opacity"
+          title="Drag to rearrange"
+        >
+          <GripVertical className="w-3.5 h-3.5" />
+        </button>
+      )}
+    </motion.div>
+  );
+};
+
 export const VideoLayout = ({
   localParticipant,
   remoteParticipants,
   activeSpeaker,
+  speakingIds,
+  connectionStats = {},
+  isEncrypted = false,
+  decryptionFailedIds = [],
+  hostId = null,
+  hostControls = null,
+  raisedHands = [],
+  spotlightIds = [],
+  pinnedIds = [],
+  onTogglePin,
+  onClearPins,
   viewMode,
   onViewModeChange,
+  onTileSizeChange,
+  onTileVisibilityChange,
+  layout = DEFAULT_LAYOUT_PREFERENCES,
+  onLayoutChange,
+  onDetachedChange,
+  isCompact = false,
 }: VideoLayoutProps) => {
+  const [page, setPage] = useState(0);
+  const recentSpeakers = useRecentSpeakers(speakingIds);
+  const onDetachedChangeRef = useRef(onDetachedChange);
   const allParticipants = [
     ...(localParticipant ? [localParticipant] : []),
     ...remoteParticipants,
   ];
-  const totalParticipants = allParticipants.length;
+  const presenters = allParticipants.filter((p) => p.screenTrack);
+  const isPresenting = presenters.length > 0;
+
+  // The host's spotlight comes first, then our own pins; people who left
+  // simply drop out
+  const featuredIds = [
+    ...spotlightIds,
+    ...pinnedIds.filter((id) => !spotlightIds.includes(id)),
+  ];
+  const featured = featuredIds.flatMap((id) =>
+    allParticipants.filter((p) => p.id === id)
+  );
+  const unfeatured = allParticipants.filter((p) => !featuredIds.includes(p.id));
+  const hasPins = allParticipants.some((p) => pinnedIds.includes(p.id));
+  const hasSpotlight = allParticipants.some((p) => spotlightIds.includes(p.id));
+
+  // Preferences can hide tiles, though never featured ones
+  const isHidden = (participant: VideoParticipant) => {
+    if (participant.id === localParticipant?.id) return layout.hideSelfView;
+    return (
+      layout.hideNonVideo && (participant.isVideoOff || !participant.videoTrack)
+    );
+  };
+
+  // The saved order is by name, numbered in join order when names repeat
+  // ("Sam", "Sam#2"), so namesakes each keep a place of their own
+  const orderKeys = new Map<string, string>();
+  const nameCounts = new Map<string, number>();
+  [...allParticipants]
+    .sort((a, b) => a.joinedAt - b.joinedAt)
+    .forEach((participant) => {
+      const count = (nameCounts.get(participant.name) ?? 0) + 1;
+      nameCounts.set(participant.name, count);
+      orderKeys.set(
+        participant.id,
+        count === 1 ? participant.name : `${participant.name}#${count}`
+      );
+    });
+  const getOrderKey = (participant: VideoParticipant) =>
+    orderKeys.get(participant.id) ?? participant.name;
+
+  // Featured tiles lead, then the order we dragged tiles into, then us,
+  // then whoever spoke last; people who haven't spoken keep their join order
+  const getArrangedRank = (participant: VideoParticipant) => {
+    const index = layout.tileOrder.indexOf(getOrderKey(participant));
+    return index === -1 ? layout.tileOrder.length : index;
+  };
+  const getSpeakerRank = (participant: VideoParticipant) => {
+    if (participant.id === localParticipant?.id) return -1;
+    const index = recentSpeakers.indexOf(participant.id);
+    return index === -1 ? recentSpeakers.length : index;
+  };
+  const arrangeable = unfeatured
+    .filter((p) => !isHidden(p))
+    .sort(
+      (a, b) =>
+        getArrangedRank(a) - getArrangedRank(b) ||
+        getSpeakerRank(a) - getSpeakerRank(b)
+    );
+  const arranged = [...featured, ...arrangeable];
+
+  // Drop a tile onto another to take its place. Names of people who aren't
+  // here keep their place at the end of the saved order.
+  const getDropHandler = (participant: VideoParticipant) => {
+    if (!onLayoutChange || !arrangeable.includes(participant)) return;
+
+    return ({ x, y }: Point) => {
+      const targetId = document
+        .elementsFromPoint(x - window.scrollX, y - window.scrollY)
+        .map((el) => el.closest<HTMLElement>("[data-tile-id]"))
+        .find((el) => el && el.dataset.tileId !== participant.id)
+        ?.dataset.tileId;
+      const to = arrangeable.findIndex((p) => p.id === targetId);
+      if (to === -1) return;
+
+      const next = arrangeable.filter((p) => p !== participant);
+      next.splice(to, 0, participant);
+      const keys = next.map(getOrderKey);
+      onLayoutChange({
+        tileOrder: [
+          ...keys,
+          ...layout.tileOrder.filter((key) => !keys.includes(key)),
+        ],
+      });
+    };
+  };
+
+  // Every page but the last ends in a "+N others" tile
+  const { maxTilesPerPage } = layout;
+  const isPaginated = arranged.length > maxTilesPerPage;
+  const tilesPerPage = isPaginated ? maxTilesPerPage - 1 : maxTilesPerPage;
+  const pageCount = Math.ceil(arranged.length / tilesPerPage) || 1;
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageParticipants = arranged.slice(
+    currentPage * tilesPerPage,
+    (currentPage + 1) * tilesPerPage
+  );
+  const overflowCount = arranged.length - (currentPage + 1) * tilesPerPage;
+
+  // Compact shows whoever is featured, else the active speaker, else
+  // someone other than us; a presentation shows just the screens
+  const compactSpeaker =
+    arranged.find((p) => p.id === activeSpeaker?.id) ??
+    arranged.find((p) => p.id !== localParticipant?.id) ??
+    arranged[0];
+  const compactMain =
+    featured.length > 0 ? featured : compactSpeaker ? [compactSpeaker] : [];
+
+  const getRendered = () => {
+    if (isCompact) return isPresenting ? [] : compactMain;
+    return viewMode === "grid" && !isPresenting ? pageParticipants : arranged;
+  };
+  const rendered = getRendered();
+  const detached = remoteParticipants.filter((p) => !rendered.includes(p));
+
+  // Hidden and off-page tiles aren't rendered at all, so they never report
+  // themselves hidden
+  const detachedKey = JSON.stringify(detached.map((p) => p.id));
+  const reportsDetached = !!onDetachedChange;
+
+  useEffect(() => {
+    onDetachedChangeRef.current = onDetachedChange;
+  }, [onDetachedChange]);
+
+  useEffect(() => {
+    if (!reportsDetached) return;
+    onDetachedChangeRef.current?.(JSON.parse(detachedKey));
+  }, [detachedKey, reportsDetached]);
+
+  // Nobody stays detached once we stop reporting, so another layout can
+  // take over
+  useEffect(() => {
+    if (!reportsDetached) return;
+    return () => onDetachedChangeRef.current?.([]);
+  }, [reportsDetached]);
+
+  const toggleSpotlight = (participantId: string) => {
+    if (!hostControls) return Promise.resolve();
+    return hostControls.setSpotlight(
+      spotlightIds.includes(participantId)
+        ? spotlightIds.filter((id) => id !== participantId)
+        : [...spotlightIds, participantId]
+    );
+  };
+
+  // Only remote camera tiles steer which video layer we receive
+  const getSizeHandler = (participant: VideoParticipant) => {
+    if (!onTileSizeChange || participant.id === localParticipant?.id) return;
+    return (size: TileSize) => onTileSizeChange(participant.id, size);
+  };
+
+  // Remote cameras nobody can see don't need to be received at all
+  const getVisibilityHandler = (participant: VideoParticipant) => {
+    if (!onTileVisibilityChange || participant.id === localParticipant?.id)
+      return;
+    return (isVisible: boolean) =>
+      onTileVisibilityChange(participant.id, isVisible);
+  };
+
+  const getCameraTileProps = (participant: VideoParticipant) => ({
+    participant,
+    isLocal: participant.id === localParticipant?.id,
+    isSpeaking: speakingIds.includes(participant.id),
+    onSizeChange: getSizeHandler(participant),
+    onVisibilityChange: getVisibilityHandler(participant),
+    connectionStats: connectionStats[participant.id],
+    isEncrypted,
+    cannotDecrypt: decryptionFailedIds.includes(participant.id),
+    isHost: participant.id === hostId,
+    hostControls,
+    handPosition: raisedHands.indexOf(participant.id) + 1 || undefined,
+    isPinned: pinnedIds.includes(participant.id),
+    isSpotlit: spotlightIds.includes(participant.id),
+    onTogglePin: onTogglePin && (() => onTogglePin(participant.id)),
+    onToggleSpotlight: hostControls
+      ? () => toggleSpotlight(participant.id)
+      : undefined,
+    playsAudio: !isCompact,
+  });
 
   // Responsive grid columns
-  const getGridClasses = () => {
-    if (totalParticipants === 1) return "grid-cols-1";
-    if (totalParticipants === 2) return "grid-cols-1 sm:grid-cols-2";
-    if (totalParticipants <= 4) return "grid-cols-2";
-    if (totalParticipants <= 6) return "grid-cols-2 md:grid-cols-3";
-    return "grid-cols-2 md:grid-cols-3 lg:grid-cols-4";
+  const getGridClasses = (tileCount: number) => {
+    if (tileCount === 1) return "grid-cols-1";
+    if (tileCount === 2) return "grid-cols-1 sm:grid-cols-2";
+    if (tileCount <= 4) return "grid-cols-2";
+    if (tileCount <= 6) return "grid-cols-2 md:grid-cols-3";
+    if (tileCount <= 16) return "grid-cols-2 md:grid-cols-3 lg:grid-cols-4";
+    if (tileCount <= 25) return "grid-cols-3 md:grid-cols-4 lg:grid-cols-5";
+    return "grid-cols-4 md:grid-cols-5 lg:grid-cols-7";
+  };
+
+  const renderOverflowTile = () => {
+    const next = arranged.slice(
+      (currentPage + 1) * tilesPerPage,
+      (currentPage + 1) * tilesPerPage + 3
+    );
+
+    return (
+      <motion.button
+        layout
+        key="overflow"
+        onClick={() => setPage(currentPage + 1)}
+        className="w-full h-full min-h-0 aspect-video flex flex-col items-center justify-center gap-2 rounded-2xl bg-neutral-900 ring-1 ring-neutral-700/50 hover:bg-neutral-800 transition-colors"
+        title="Next page"
+      >
+        <div className="flex -space-x-2">
+          {next.map((participant) => (
+            <div
+              key={participant.id}
+              className="w-8 h-8 rounded-full bg-gradient-to-br from-neutral-700 to-neutral-900 border-2 border-neutral-900 flex items-center justify-center text-xs font-bold text-neutral-200"
+            >
+              {participant.name.charAt(0).toUpperCase()}
+            </div>
+          ))}
+        </div>
+        <span className="text-sm font-semibold text-neutral-200">
+          +{overflowCount} {overflowCount === 1 ? "other" : "others"}
+        </span>
+      </motion.button>
+    );
   };
 
-  const renderGridView = () => (
+  // Featured tiles lead the grid; a single one also takes a double cell.
+  // A chosen tile width trades the fitted grid for a scrolling one.
+  const renderGridView = () => {
+    const tileCount = pageParticipants.length + (overflowCount > 0 ? 1 : 0);
+    const isEnlarged =
+      featured.length === 1 && tileCount > 2 && currentPage === 0;
+    const { tileWidth } = layout;
+
+    return (
+      <div className="flex flex-col gap-2 w-full h-full">
+        <div
+          className={cn(
+            "grid gap-3 w-full flex-1 min-h-0 p-2",
+            tileWidth === null
+              ? ["auto-rows-fr", getGridClasses(tileCount)]
+              : "content-start overflow-y-auto",
+            tileCount === 1 && "place-items-center"
+          )}
+          style={
+            tileWidth === null
+              ? undefined
+              : {
+                  gridTemplateColumns: `repeat(auto-fill, minmax(min(100%, ${tileWidth}px), 1fr))`,
+                }
+          }
+        >
+          <AnimatePresence mode="popLayout">
+            {pageParticipants.map((participant, index) => (
+              <ArrangeableTile
+                key={participant.id}
+                participantId={participant.id}
+                onDrop={getDropHandler(participant)}
+                className={cn(
+                  "w-full h-full min-h-0",
+                  tileCount === 1
+                    ? "max-w-4xl max-h-[80vh] aspect-video"
+                    : isEnlarged && index === 0
+                    ? "col-span-2 row-span-2"
+                    : "aspect-video"
+                )}
+              >
+                <VideoTile {...getCameraTileProps(participant)} />
+              </ArrangeableTile>
+            ))}
+            {overflowCount > 0 && renderOverflowTile()}
+          </AnimatePresence>
+        </div>
+
+        {pageCount > 1 && (
+          <div className="flex items-center justify-center gap-1 shrink-0 pb-1 text-sm text-neutral-400">
+            <button
+              onClick={() => setPage(currentPage - 1)}
+              disabled={currentPage === 0}
+              className="p-1.5 rounded-lg hover:bg-white/5 hover:text-white disabled:opacity-30 disabled:pointer-events-none transition-colors"
+              title="Previous page"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span className="tabular-nums">
+              {currentPage + 1} / {pageCount}
+            </span>
+            <button
+              onClick={() => setPage(currentPage + 1)}
+              disabled={currentPage === pageCount - 1}
+              className="p-1.5 rounded-lg hover:bg-white/5 hover:text-white disabled:opacity-30 disabled:pointer-events-none transition-colors"
+              title="Next page"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // One tile fills the main area; several share it in a grid
+  const renderMainArea = (main: VideoParticipant[]) => (
     <div
       className={cn(
-        "grid gap-3 w-full h-full p-2 auto-rows-fr",
-        getGridClasses(),
-        totalParticipants === 1 && "place-items-center"
+        "grid gap-3 w-full h-full auto-rows-fr",
+        main.length === 2 && "grid-cols-1 md:grid-cols-2",
+        main.length > 2 && "grid-cols-2"
       )}
     >
       <AnimatePresence mode="popLayout">
-        {allParticipants.map((participant) => (
+        {main.map((participant) => (
           <motion.div
             layout
             key={participant.id}
-            className={cn(
-              "w-full h-full min-h-0",
-              totalParticipants === 1
-                ? "max-w-4xl max-h-[80vh] aspect-video"
-                : "aspect-video"
-            )}
+            className="w-full h-full min-h-0 aspect-video md:aspect-auto"
           >
-            <VideoTile
-              participant={participant}
-              isLocal={localParticipant?.id === participant.id}
-              isSpeaking={activeSpeaker?.id === participant.id}
-            />
+            <VideoTile {...getCameraTileProps(participant)} />
           </motion.div>
         ))}
       </AnimatePresence>
     </div>
   );
 
+  // Thumbnails beside or below the main area, in the arranged order
+  const renderThumbnail = (
+    participant: VideoParticipant,
+    className: string
+  ) => (
+    <ArrangeableTile
+      key={participant.id}
+      participantId={participant.id}
+      onDrop={getDropHandler(participant)}
+      className={className}
+    >
+      <VideoTile {...getCameraTileProps(participant)} />
+    </ArrangeableTile>
+  );
+
   const renderSpeakerView = () => {
-    if (totalParticipants === 0) return null;
+    if (arranged.length === 0) return null;
 
-    const speaker = activeSpeaker || localParticipant || remoteParticipants[0];
-    const others = allParticipants.filter((p) => p.id !== speaker?.id);
+    const speaker =
+      arranged.find((p) => p.id === activeSpeaker?.id) ?? arranged[0];
+    const main = featured.length > 0 ? featured : [speaker];
+    const others = arranged.filter((p) => !main.includes(p));
 
     return (
       <div className="flex flex-col md:flex-row gap-3 w-full h-full p-2 overflow-hidden">
-        {/* Main Speaker */}
-        <div className="flex-1 min-h-0 min-w-0">
-          <AnimatePresence mode="popLayout">
-            {speaker && (
-              <motion.div
-                layout
-                key={speaker.id}
-                className="w-full h-full aspect-video md:aspect-auto"
-              >
-                <VideoTile
-                  participant={speaker}
-                  isLocal={speaker.id === localParticipant?.id}
-                  isSpeaking={true}
-                />
-              </motion.div>
-            )}
-          </AnimatePresence>
-        </div>
+        {/* Main Speaker, or whoever is featured */}
+        <div className="flex-1 min-h-0 min-w-0">{renderMainArea(main)}</div>
 
         {/* Sidebar thumbnails */}
         {others.length > 0 && (
           <div className="flex md:flex-col gap-3 overflow-x-auto md:overflow-y-auto md:w-56 lg:w-64 shrink-0 pb-2 md:pb-0 scrollbar-hide">
             <AnimatePresence mode="popLayout">
-              {others.map((participant) => (
-                <motion.div
-                  layout
-                  key={participant.id}
-                  className="h-28 md:h-auto aspect-video shrink-0 md:shrink"
-                >
-                  <VideoTile
-                    participant={participant}
-                    isLocal={participant.id === localParticipant?.id}
-                    isSpeaking={activeSpeaker?.id === participant.id}
-                  />
-                </motion.div>
-              ))}
+              {others.map((participant) =>
+                renderThumbnail(
+                  participant,
+                  "h-28 md:h-auto aspect-video shrink-0 md:shrink"
+                )
+              )}
             </AnimatePresence>
           </div>
         )}
@@ -120,49 +524,23 @@ export const VideoLayout = ({
   };
 
   const renderSidebarView = () => {
-    if (totalParticipants === 0) return null;
+    if (arranged.length === 0) return null;
 
-    const featured = localParticipant || remoteParticipants[0];
-    const others = allParticipants.filter((p) => p.id !== featured?.id);
+    const main = featured.length > 0 ? featured : [arranged[0]];
+    const others = arranged.filter((p) => !main.includes(p));
 
     return (
       <div className="flex flex-col gap-3 w-full h-full p-2 overflow-hidden">
-        {/* Featured participant */}
-        <div className="flex-1 min-h-0">
-          <AnimatePresence mode="popLayout">
-            {featured && (
-              <motion.div
-                layout
-                key={featured.id}
-                className="w-full h-full aspect-video"
-              >
-                <VideoTile
-                  participant={featured}
-                  isLocal={featured.id === localParticipant?.id}
-                  isSpeaking={activeSpeaker?.id === featured.id}
-                />
-              </motion.div>
-            )}
-          </AnimatePresence>
-        </div>
+        {/* Featured participants */}
+        <div className="flex-1 min-h-0">{renderMainArea(main)}</div>
 
         {/* Bottom thumbnails */}
         {others.length > 0 && (
           <div className="flex gap-3 overflow-x-auto h-28 sm:h-32 shrink-0 pb-2 scrollbar-hide">
             <AnimatePresence mode="popLayout">
-              {others.map((participant) => (
-                <motion.div
-                  layout
-                  key={participant.id}
-                  className="aspect-video h-full shrink-0"
-                >
-                  <VideoTile
-                    participant={participant}
-                    isLocal={participant.id === localParticipant?.id}
-                    isSpeaking={activeSpeaker?.id === participant.id}
-                  />
-                </motion.div>
-              ))}
+              {others.map((participant) =>
+                renderThumbnail(participant, "aspect-video h-full shrink-0")
+              )}
             </AnimatePresence>
           </div>
         )}
@@ -170,55 +548,162 @@ export const VideoLayout = ({
     );
   };
 
+  const getPresentingLabel = () => {
+    if (presenters.length > 1)
+      return `${presenters.length} people are presenting`;
+    if (presenters[0].id === localParticipant?.id) return "You are presenting";
+    return `${presenters[0].name} is presenting`;
+  };
+
+  const renderScreens = () => (
+    <div className="flex-1 min-h-0 min-w-0 flex flex-col gap-3">
+      <AnimatePresence mode="popLayout">
+        {presenters.map((presenter) => (
+          <motion.div
+            layout
+            key={`${presenter.id}-screen`}
+            className="flex-1 min-h-0 w-full"
+          >
+            <VideoTile
+              participant={toScreenParticipant(presenter)}
+              isLocal={presenter.id === localParticipant?.id}
+              isScreenShare
+              isEncrypted={isEncrypted}
+              cannotDecrypt={decryptionFailedIds.includes(presenter.id)}
+              playsAudio={!isCompact}
+            />
+          </motion.div>
+        ))}
+      </AnimatePresence>
+    </div>
+  );
+
+  const renderPresentationView = () => (
+    <div className="flex flex-col md:flex-row gap-3 w-full h-full p-2 overflow-hidden">
+      {/* Shared screens */}
+      {renderScreens()}
+
+      {/* Camera thumbnails */}
+      <div className="flex md:flex-col gap-3 overflow-x-auto md:overflow-y-auto md:w-56 lg:w-64 shrink-0 pb-2 md:pb-0 scrollbar-hide">
+        <AnimatePresence mode="popLayout">
+          {arranged.map((participant) =>
+            renderThumbnail(
+              participant,
+              "h-28 md:h-auto aspect-video shrink-0 md:shrink"
+            )
+          )}
+        </AnimatePresence>
+      </div>
+    </div>
+  );
+
+  if (isCompact) {
+    return (
+      <div className="flex flex-col w-full h-full">
+        {isPresenting ? renderScreens() : renderMainArea(compactMain)}
+      </div>
+    );
+  }
+
   return (
     <div className="flex flex-col gap-3 w-full h-full">
       {/* View Mode Selector */}
-      <div className="flex items-center justify-center shrink-0 pt-2">
-        <div className="flex items-center gap-1 bg-neutral-900/40 backdrop-blur-xl px-1.5 py-1.5 rounded-2xl border border-white/5 shadow-2xl">
-          {[
-            { mode: "grid" as ViewMode, icon: Grid3x3, title: "Grid View" },
-            { mode: "speaker" as ViewMode, icon: User, title: "Speaker View" },
-            {
-              mode: "sidebar" as ViewMode,
-              icon: LayoutGrid,
-              title: "Gallery View",
-            },
-          ].map(({ mode, icon: Icon, title }) => (
-            <button
-              key={mode}
-              onClick={() => onViewModeChange(mode)}
-              className={cn(
-                "group relative p-2.5 rounded-xl transition-all duration-300",
-                viewMode === mode
-                  ? "bg-blue-600/20 text-blue-400 shadow-inner"
-                  : "text-neutral-400 hover:text-neutral-200 hover:bg-white/5"
-              )}
-              title={title}
-            >
-              <Icon
+      <div className="flex flex-wrap items-center justify-center gap-2 shrink-0 pt-2">
+        {isPresenting ? (
+          <div className="flex items-center gap-2 bg-neutral-900/40 backdrop-blur-xl px-4 py-2.5 rounded-2xl border border-white/5 shadow-2xl text-sm text-neutral-300">
+            <MonitorUp className="w-4 h-4 text-blue-400" />
+            <span className="truncate max-w-[240px]">
+              {getPresentingLabel()}
+            </span>
+          </div>
+        ) : (
+          <div className="flex items-center gap-1 bg-neutral-900/40 backdrop-blur-xl px-1.5 py-1.5 rounded-2xl border border-white/5 shadow-2xl">
+            {[
+              { mode: "grid" as ViewMode, icon: Grid3x3, title: "Grid View" },
+              {
+                mode: "speaker" as ViewMode,
+                icon: User,
+                title: "Speaker View",
+              },
+              {
+                mode: "sidebar" as ViewMode,
+                icon: LayoutGrid,
+                title: "Gallery View",
+              },
+            ].map(({ mode, icon: Icon, title }) => (
+              <button
+                key={mode}
+                onClick={() => onViewModeChange(mode)}
                 className={cn(
-                  "w-4 h-4 transition-transform duration-300",
-                  viewMode === mode ? "scale-110" : "group-hover:scale-110"
+                  "group relative p-2.5 rounded-xl transition-all duration-300",
+                  viewMode === mode
+                    ? "bg-blue-600/20 text-blue-400 shadow-inner"
+                    : "text-neutral-400 hover:text-neutral-200 hover:bg-white/5"
                 )}
-              />
-              {viewMode === mode && (
-                <motion.div
-                  layoutId="active-mode-bg"
-                  className="absolute inset-0 bg-blue-600/10 rounded-xl -z-10 border border-blue-500/20"
-                  transition={{ type: "spring", bounce: 0.2, duration: 0.6 }}
+                title={title}
+              >
+                <Icon
+                  className={cn(
+                    "w-4 h-4 transition-transform duration-300",
+                    viewMode === mode ? "scale-110" : "group-hover:scale-110"
+                  )}
                 />
-              )}
-            </button>
-          ))}
-        </div>
+                {viewMode === mode && (
+                  <motion.div
+                    layoutId="active-mode-bg"
+                    className="absolute inset-0 bg-blue-600/10 rounded-xl -z-10 border border-blue-500/20"
+                    transition={{ type: "spring", bounce: 0.2, duration: 0.6 }}
+                  />
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+        {hasSpotlight && hostControls && (
+          <button
+            onClick={() =>
+              hostControls
+                .setSpotlight([])
+                .catch((err) => console.error("Host action failed:", err))
+            }
+            className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-blue-600/20 text-blue-400 hover:bg-blue-600/30 text-xs font-semibold transition-colors"
+            title="Stop featuring anyone for everyone"
+          >
+            <Sparkles className="w-3.5 h-3.5" />
+            End spotlight
+          </button>
+        )}
+        {hasPins && onClearPins && (
+          <button
+            onClick={onClearPins}
+            className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-neutral-900/40 border border-white/5 text-neutral-300 hover:text-white text-xs font-semibold transition-colors"
+          >
+            <PinOff className="w-3.5 h-3.5" />
+            Unpin all
+          </button>
+        )}
+        {onLayoutChange && (
+          <LayoutSettings layout={layout} onLayoutChange={onLayoutChange} />
+        )}
       </div>
 
       {/* Video Content */}
       <div className="flex-1 min-h-0 overflow-hidden">
-        {viewMode === "grid" && renderGridView()}
-        {viewMode === "speaker" && renderSpeakerView()}
-        {viewMode === "sidebar" && renderSidebarView()}
+        {isPresenting ? (
+          renderPresentationView()
+        ) : (
+          <>
+            {viewMode === "grid" && renderGridView()}
+            {viewMode === "speaker" && renderSpeakerView()}
+            {viewMode === "sidebar" && renderSidebarView()}
+          </>
+        )}
       </div>
+
+      {/* Hidden and off-page people are still heard */}
+      {detached.map((participant) => (
+        <ParticipantAudio key={participant.id} track={participant.audioTrack} />
+      ))}
     </div>
   );
 };
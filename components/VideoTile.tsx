@@ -1,23 +1,59 @@
 "use client";
 
 import React, { useEffect, useRef } from "react";
-import { Mic, MicOff, VideoOff } from "lucide-react";
+import {
+  Crown,
+  Hand,
+  Lock,
+  LockKeyholeOpen,
+  Mic,
+  MicOff,
+  MonitorUp,
+  Pin,
+  PinOff,
+  Sparkles,
+  VideoOff,
+} from "lucide-react";
 import { cn } from "@/lib/utils";
 import { motion } from "framer-motion";
+import { ConnectionIndicator } from "./ConnectionIndicator";
+import { ParticipantAudio } from "./ParticipantAudio";
+import { ParticipantMenu } from "./ParticipantMenu";
+import type {
+  ConnectionStats,
+  HostControls,
+  VideoParticipant,
+} from "@/lib/conference";
 
-export interface VideoParticipant {
-  id: string;
-  name: string;
-  videoTrack: MediaStreamTrack | null;
-  audioTrack: MediaStreamTrack | null;
-  isMuted: boolean;
-  isVideoOff: boolean;
-}
+export type { VideoParticipant } from "@/lib/conference";
 
 interface VideoTileProps {
   participant: VideoParticipant;
   isLocal?: boolean;
   isSpeaking?: boolean;
+  isScreenShare?: boolean;
+  connectionStats?: ConnectionStats;
+  isEncrypted?: boolean;
+  // Media arrives but doesn't decrypt with our room passphrase
+  cannotDecrypt?: boolean;
+  isHost?: boolean;
+  // Ours while we host, for managing this participant
+  hostControls?: HostControls | null;
+  // Place in the raised hand queue, counting from 1
+  handPosition?: number;
+  isPinned?: boolean;
+  // Featured for everyone by the host
+  isSpotlit?: boolean;
+  // Ours while we host and the backend supports a spotlight
+  onToggleSpotlight?: () => Promise<void>;
+  // Pinning is local: it only changes our own layout
+  onTogglePin?: () => void;
+  // Off where another tile for the same person is already heard
+  playsAudio?: boolean;
+  // Reports the rendered size so the sender can pick a fitting video layer
+  onSizeChange?: (size: { width: number; height: number }) => void;
+  // Reports whether the tile can actually be seen, so hidden video can pause
+  onVisibilityChange?: (isVisible: boolean) => void;
   className?: string;
 }
 
@@ -25,10 +61,96 @@ export const VideoTile = ({
   participant,
   isLocal = false,
   isSpeaking = false,
+  isScreenShare = false,
+  connectionStats,
+  isEncrypted = false,
+  cannotDecrypt = false,
+  isHost = false,
+  hostControls,
+  handPosition,
+  isPinned = false,
+  isSpotlit = false,
+  onToggleSpotlight,
+  onTogglePin,
+  playsAudio = true,
+  onSizeChange,
+  onVisibilityChange,
   className,
 }: VideoTileProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
-  const audioRef = useRef<HTMLAudioElement>(null);
+  const onSizeChangeRef = useRef(onSizeChange);
+  const onVisibilityChangeRef = useRef(onVisibilityChange);
+  const reportsSize = !!onSizeChange;
+  const reportsVisibility = !!onVisibilityChange;
+
+  useEffect(() => {
+    onSizeChangeRef.current = onSizeChange;
+  }, [onSizeChange]);
+
+  useEffect(() => {
+    onVisibilityChangeRef.current = onVisibilityChange;
+  }, [onVisibilityChange]);
+
+  // Observers come from the tile's own window, which may be a
+  // picture-in-picture one
+  useEffect(() => {
+    const containerEl = containerRef.current;
+    const view = containerEl?.ownerDocument.defaultView;
+    if (
+      !containerEl ||
+      !view ||
+      !reportsSize ||
+      typeof view.ResizeObserver === "undefined"
+    )
+      return;
+
+    const observer = new view.ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      onSizeChangeRef.current?.({ width, height });
+    });
+    observer.observe(containerEl);
+
+    return () => observer.disconnect();
+  }, [reportsSize]);
+
+  // Visible means on screen in a foreground tab. Only changes are reported,
+  // and a tile that goes away while visible reports itself hidden.
+  useEffect(() => {
+    const containerEl = containerRef.current;
+    const view = containerEl?.ownerDocument.defaultView;
+    if (
+      !containerEl ||
+      !view ||
+      !reportsVisibility ||
+      typeof view.IntersectionObserver === "undefined"
+    )
+      return;
+
+    const doc = containerEl.ownerDocument;
+    let isIntersecting = true;
+    let isVisible = false;
+
+    const update = () => {
+      const next = isIntersecting && doc.visibilityState === "visible";
+      if (next === isVisible) return;
+      isVisible = next;
+      onVisibilityChangeRef.current?.(next);
+    };
+
+    const observer = new view.IntersectionObserver(([entry]) => {
+      isIntersecting = entry.isIntersecting;
+      update();
+    });
+    observer.observe(containerEl);
+    doc.addEventListener("visibilitychange", update);
+
+    return () => {
+      observer.disconnect();
+      doc.removeEventListener("visibilitychange", update);
+      if (isVisible) onVisibilityChangeRef.current?.(false);
+    };
+  }, [reportsVisibility]);
 
   useEffect(() => {
     const videoEl = videoRef.current;
@@ -40,20 +162,14 @@ export const VideoTile = ({
     }
   }, [participant.videoTrack]);
 
-  useEffect(() => {
-    const audioEl = audioRef.current;
-    if (audioEl && participant.audioTrack && !isLocal) {
-      const stream = new MediaStream([participant.audioTrack]);
-      audioEl.srcObject = stream;
-    } else if (audioEl) {
-      audioEl.srcObject = null;
-    }
-  }, [participant.audioTrack, isLocal]);
-
-  const showAvatar = participant.isVideoOff || !participant.videoTrack;
+  const showAvatar =
+    !cannotDecrypt && (participant.isVideoOff || !participant.videoTrack);
+  const showMenu = !!hostControls && !isLocal && !isScreenShare;
+  const showPin = !!onTogglePin && !isScreenShare;
 
   return (
     <motion.div
+      ref={containerRef}
       layout
       layoutId={participant.id}
       initial={{ opacity: 0, scale: 0.95 }}
@@ -66,7 +182,7 @@ export const VideoTile = ({
         opacity: { duration: 0.2 },
       }}
       className={cn(
-        "relative w-full h-full min-h-0 bg-neutral-900 rounded-2xl overflow-hidden transition-all duration-300",
+        "group relative w-full h-full min-h-0 bg-neutral-900 rounded-2xl overflow-hidden transition-all duration-300",
         isSpeaking
           ? "ring-[3px] ring-green-500 ring-offset-2 ring-offset-neutral-950 shadow-lg shadow-green-500/20"
           : "ring-1 ring-neutral-700/50",
@@ -80,13 +196,17 @@ export const VideoTile = ({
         playsInline
         muted={isLocal}
         className={cn(
-          "absolute inset-0 w-full h-full object-cover transition-opacity duration-300",
-          showAvatar ? "opacity-0" : "opacity-100"
+          "absolute inset-0 w-full h-full transition-opacity duration-300",
+          // Never crop slides or code
+          isScreenShare ? "object-contain bg-black" : "object-cover",
+          showAvatar || cannotDecrypt ? "opacity-0" : "opacity-100"
         )}
       />
 
       {/* Audio Element (for remote participants) */}
-      {!isLocal && <audio ref={audioRef} autoPlay />}
+      {!isLocal && playsAudio && (
+        <ParticipantAudio track={participant.audioTrack} />
+      )}
 
       {/* Video Off Placeholder - Avatar */}
       {showAvatar && (
@@ -128,32 +248,104 @@ export const VideoTile = ({
         </div>
       )}
 
+      {/* Undecryptable media - explicit, rather than a black tile */}
+      {cannotDecrypt && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-neutral-900 px-4 text-center">
+          <div className="w-12 h-12 rounded-full bg-amber-500/10 border border-amber-500/30 flex items-center justify-center">
+            <LockKeyholeOpen className="w-5 h-5 text-amber-400" />
+          </div>
+          <p className="text-sm font-semibold text-neutral-200">
+            Can&apos;t decrypt {participant.name}
+          </p>
+          <p className="text-xs text-neutral-500">
+            They may be using a different room passphrase
+          </p>
+        </div>
+      )}
+
       {/* Overlay UI */}
       <div className="absolute inset-0 pointer-events-none p-3 flex flex-col justify-between z-10">
-        <div className="flex justify-end">
+        <div className="flex items-start gap-2">
+          {/* Connection Quality Top Left */}
+          {connectionStats && (
+            <ConnectionIndicator stats={connectionStats} isLocal={isLocal} />
+          )}
+
           {/* Status Indicators Top Right */}
-          {isSpeaking && (
-            <motion.div
-              initial={{ opacity: 0, scale: 0.5 }}
-              animate={{ opacity: 1, scale: 1 }}
-              className="bg-green-500/90 text-white p-1 rounded-md shadow-lg"
-            >
-              <div className="flex gap-0.5 items-center justify-center h-2.5 w-4">
-                {[0, 1, 2].map((i) => (
-                  <motion.div
-                    key={i}
-                    animate={{ height: ["4px", "100%", "4px"] }}
-                    transition={{
-                      duration: 0.4,
-                      repeat: Infinity,
-                      delay: i * 0.1,
-                    }}
-                    className="w-0.5 bg-white rounded-full h-full"
-                  />
-                ))}
+          <div className="ml-auto flex items-center gap-2">
+            {isSpotlit && !isScreenShare && (
+              <div
+                className="flex items-center gap-1 px-1.5 py-1 rounded-md bg-blue-500/90 text-white text-xs font-bold shadow-lg"
+                title="Spotlighted by the host"
+              >
+                <Sparkles className="w-3.5 h-3.5" />
               </div>
-            </motion.div>
-          )}
+            )}
+            {handPosition && !isScreenShare && (
+              <motion.div
+                initial={{ opacity: 0, scale: 0.5 }}
+                animate={{ opacity: 1, scale: 1 }}
+                className="flex items-center gap-1 px-1.5 py-1 rounded-md bg-amber-400 text-neutral-950 text-xs font-bold shadow-lg"
+                title={`Hand raised, #${handPosition} in line`}
+              >
+                <Hand className="w-3.5 h-3.5" />
+                {handPosition}
+              </motion.div>
+            )}
+            {isSpeaking && (
+              <motion.div
+                initial={{ opacity: 0, scale: 0.5 }}
+                animate={{ opacity: 1, scale: 1 }}
+                className="bg-green-500/90 text-white p-1 rounded-md shadow-lg"
+              >
+                <div className="flex gap-0.5 items-center justify-center h-2.5 w-4">
+                  {[0, 1, 2].map((i) => (
+                    <motion.div
+                      key={i}
+                      animate={{ height: ["4px", "100%", "4px"] }}
+                      transition={{
+                        duration: 0.4,
+                        repeat: Infinity,
+                        delay: i * 0.1,
+                      }}
+                      className="w-0.5 bg-white rounded-full h-full"
+                    />
+                  ))}
+                </div>
+              </motion.div>
+            )}
+            {showPin && (
+              <button
+                onClick={onTogglePin}
+                className={cn(
+                  "pointer-events-auto p-1.5 rounded-lg backdrop-blur-xl border transition-all",
+                  isPinned
+                    ? "bg-blue-600/80 border-blue-400/30 text-white hover:bg-blue-600"
+                    : "bg-black/40 border-white/10 text-white hover:bg-black/60 opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                )}
+                title={
+                  isPinned
+                    ? `Unpin ${participant.name}`
+                    : `Pin ${participant.name}`
+                }
+              >
+                {isPinned ? (
+                  <PinOff className="w-3.5 h-3.5" />
+                ) : (
+                  <Pin className="w-3.5 h-3.5" />
+                )}
+              </button>
+            )}
+            {showMenu && (
+              <ParticipantMenu
+                participant={participant}
+                hostControls={hostControls}
+                isSpotlit={isSpotlit}
+                onToggleSpotlight={onToggleSpotlight}
+                className="pointer-events-auto"
+              />
+            )}
+          </div>
         </div>
 
         <div className="flex items-center justify-between pointer-events-auto">
@@ -162,7 +354,7 @@ export const VideoTile = ({
             layout
             className={cn(
               "flex items-center gap-2 px-3 py-1.5 rounded-xl backdrop-blur-xl border transition-all duration-300",
-              participant.isMuted
+              participant.isMuted && !isScreenShare
                 ? "bg-red-500/10 border-red-500/20 text-red-100"
                 : "bg-black/40 border-white/10 text-white"
             )}
@@ -170,21 +362,39 @@ export const VideoTile = ({
             <div
               className={cn(
                 "p-1 rounded-lg",
-                participant.isMuted ? "bg-red-500/20" : "bg-white/10"
+                participant.isMuted && !isScreenShare
+                  ? "bg-red-500/20"
+                  : "bg-white/10"
               )}
             >
-              {participant.isMuted ? (
+              {isScreenShare ? (
+                <MonitorUp className="w-3 h-3" />
+              ) : participant.isMuted ? (
                 <MicOff className="w-3 h-3" />
               ) : (
                 <Mic className="w-3 h-3" />
               )}
             </div>
             <span className="text-xs font-bold tracking-tight truncate max-w-[80px] sm:max-w-[120px]">
-              {participant.name}
+              {isScreenShare
+                ? `${participant.name}'s screen`
+                : participant.name}
               {isLocal && (
                 <span className="ml-1 opacity-60 font-normal">(You)</span>
               )}
             </span>
+            {isHost && !isScreenShare && (
+              <Crown
+                className="w-3 h-3 shrink-0 text-amber-400"
+                aria-label="Host"
+              />
+            )}
+            {isEncrypted && !cannotDecrypt && (
+              <Lock
+                className="w-3 h-3 shrink-0 text-green-400"
+                aria-label="End-to-end encrypted"
+              />
+            )}
           </motion.div>
         </div>
       </div>
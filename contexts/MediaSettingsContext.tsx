@@ -0,0 +1,51 @@
+"use client";
+
+import React, { createContext, useContext, useMemo } from "react";
+import { useBrowserSupport } from "@/hooks/useBrowserSupport";
+
+interface MediaSettingsContextValue {
+  // Empty string means the system default output
+  audioOutputId: string;
+  isAudioOutputSupported: boolean;
+}
+
+const MediaSettingsContext = createContext<MediaSettingsContextValue>({
+  audioOutputId: "",
+  isAudioOutputSupported: false,
+});
+
+const isAudioOutputSupported = () =>
+  typeof HTMLMediaElement !== "undefined" &&
+  "setSinkId" in HTMLMediaElement.prototype;
+
+/**
+ * Whether this browser can route media elements to a chosen output device
+ * (Safari and Firefox on mobile can't).
+ */
+export function useAudioOutputSupport() {
+  return useBrowserSupport(isAudioOutputSupported);
+}
+
+export function MediaSettingsProvider({
+  audioOutputId = "",
+  children,
+}: {
+  audioOutputId?: string;
+  children: React.ReactNode;
+}) {
+  const isAudioOutputSupported = useAudioOutputSupport();
+  const value = useMemo(
+    () => ({ audioOutputId, isAudioOutputSupported }),
+    [audioOutputId, isAudioOutputSupported]
+  );
+
+  return (
+    <MediaSettingsContext.Provider value={value}>
+      {children}
+    </MediaSettingsContext.Provider>
+  );
+}
+
+export function useMediaSettings() {
+  return useContext(MediaSettingsContext);
+}
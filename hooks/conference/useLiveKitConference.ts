@@ -0,0 +1,228 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Participant, RemoteParticipant, Track } from "livekit-client";
+import { useLiveKit } from "../useLiveKit";
+import {
+  BACKEND_FEATURES,
+  ConferenceOptions,
+  ConferenceSession,
+  DEFAULT_AUDIO_SETTINGS,
+  LIVEKIT_URL,
+  TileSize,
+  VideoParticipant,
+  WITHOUT_MODERATION,
+} from "@/lib/conference";
+import { NO_BACKGROUND_EFFECT } from "@/lib/backgroundProcessor";
+
+const fetchToken = async (roomId: string, userName: string) => {
+  const params = new URLSearchParams({ room: roomId, name: userName });
+  const res = await fetch(`/api/livekit/token?${params}`);
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok || typeof body.token !== "string") {
+    throw new Error(body.error || `Token request failed (${res.status})`);
+  }
+  return body.token as string;
+};
+
+const getCameraPublication = (participant: RemoteParticipant) =>
+  participant.getTrackPublication(Track.Source.Camera);
+
+const getTrack = (participant: Participant, source: Track.Source) =>
+  participant.getTrackPublication(source)?.track?.mediaStreamTrack ?? null;
+
+const toVideoParticipant = (participant: Participant): VideoParticipant => {
+  const mic = participant.getTrackPublication(Track.Source.Microphone);
+  const camera = participant.getTrackPublication(Track.Source.Camera);
+
+  return {
+    id: participant.identity,
+    name: participant.name || participant.identity,
+    videoTrack: getTrack(participant, Track.Source.Camera),
+    audioTrack: getTrack(participant, Track.Source.Microphone),
+    screenTrack: getTrack(participant, Track.Source.ScreenShare),
+    screenAudioTrack: getTrack(participant, Track.Source.ScreenShareAudio),
+    isMuted: !mic || mic.isMuted,
+    isVideoOff: !camera || camera.isMuted,
+    joinedAt: participant.joinedAt?.getTime() ?? Date.now(),
+  };
+};
+
+const unsupported = (feature: string) => async () => {
+  console.warn(`${feature} is not available with the LiveKit backend yet`);
+};
+
+export function useLiveKitConference({
+  roomId,
+  userName,
+  enabled = true,
+  ...options
+}: ConferenceOptions): ConferenceSession {
+  const [token, setToken] = useState("");
+  const [tokenError, setTokenError] = useState<Error | null>(null);
+  const visibleTilesRef = useRef<Map<string, number>>(new Map());
+  const detachedRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!enabled || !roomId || !userName) return;
+
+    let cancelled = false;
+    fetchToken(roomId, userName)
+      .then((issued) => {
+        if (!cancelled) setToken(issued);
+      })
+      .catch((err) => {
+        console.error("Failed to get a LiveKit token:", err);
+        if (!cancelled) setTokenError(err as Error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, roomId, userName]);
+
+  const {
+    room,
+    participants: remoteParticipants,
+    localParticipant: local,
+    activeSpeaker: speaker,
+    revision,
+    isConnecting,
+    error,
+    isMuted,
+    isVideoOff,
+    isScreenSharing,
+    toggleMute,
+    toggleVideo,
+    startScreenShare,
+    stopScreenShare,
+    disconnect,
+  } = useLiveKit({ url: LIVEKIT_URL, token, enabled, ...options });
+
+  // Re-map whenever LiveKit reports a change to its mutable participants
+  const snapshot = useMemo(() => {
+    void revision;
+    return {
+      localParticipant: local ? toVideoParticipant(local) : null,
+      participants: remoteParticipants.map(toVideoParticipant),
+      speakingIds: [
+        ...(local?.isSpeaking ? [local.identity] : []),
+        ...remoteParticipants
+          .filter((p) => p.isSpeaking)
+          .map((p) => p.identity),
+      ],
+    };
+  }, [local, remoteParticipants, revision]);
+
+  const activeSpeaker = useMemo(() => {
+    if (!speaker) return null;
+    if (speaker.identity === snapshot.localParticipant?.id) {
+      return snapshot.localParticipant;
+    }
+    return snapshot.participants.find((p) => p.id === speaker.identity) ?? null;
+  }, [speaker, snapshot]);
+
+  const changeAudioInput = useCallback(
+    async (deviceId: string) => {
+      await room?.switchActiveDevice("audioinput", deviceId);
+    },
+    [room]
+  );
+
+  const changeVideoInput = useCallback(
+    async (deviceId: string) => {
+      await room?.switchActiveDevice("videoinput", deviceId);
+    },
+    [room]
+  );
+
+  const findRemote = useCallback(
+    (participantId: string) =>
+      remoteParticipants.find((p) => p.identity === participantId),
+    [remoteParticipants]
+  );
+
+  const setTileSize = useCallback(
+    (participantId: string, size: TileSize) => {
+      const participant = findRemote(participantId);
+      if (participant)
+        getCameraPublication(participant)?.setVideoDimensions(size);
+    },
+    [findRemote]
+  );
+
+  // Same per-participant tile count as the mediasoup backend, since a
+  // participant can briefly have two tiles while layouts animate
+  const syncCameraSubscription = useCallback(
+    (participant: RemoteParticipant) => {
+      const visibleTiles = visibleTilesRef.current.get(participant.identity);
+      const isDetached = detachedRef.current.has(participant.identity);
+      if (visibleTiles === undefined && !isDetached) return;
+      getCameraPublication(participant)?.setEnabled(
+        !isDetached && (visibleTiles ?? 0) > 0
+      );
+    },
+    []
+  );
+
+  const setTileVisible = useCallback(
+    (participantId: string, isVisible: boolean) => {
+      const visibleTiles = visibleTilesRef.current.get(participantId) ?? 0;
+      visibleTilesRef.current.set(
+        participantId,
+        Math.max(0, visibleTiles + (isVisible ? 1 : -1))
+      );
+      const participant = findRemote(participantId);
+      if (participant) syncCameraSubscription(participant);
+    },
+    [findRemote, syncCameraSubscription]
+  );
+
+  const setDetachedParticipants = useCallback(
+    (participantIds: string[]) => {
+      detachedRef.current = new Set(participantIds);
+      remoteParticipants.forEach(syncCameraSubscription);
+    },
+    [remoteParticipants, syncCameraSubscription]
+  );
+
+  // Newly published cameras start enabled, so re-apply what tiles reported
+  useEffect(() => {
+    remoteParticipants.forEach(syncCameraSubscription);
+  }, [remoteParticipants, revision, syncCameraSubscription]);
+
+  return {
+    socket: null,
+    messenger: null,
+    features: BACKEND_FEATURES.livekit,
+    ...snapshot,
+    activeSpeaker,
+    connectionStats: {},
+    uplinkWarning: null,
+    isConnecting: isConnecting || (enabled && !token && !tokenError),
+    isReconnecting: false,
+    error: tokenError ?? error,
+    isMuted,
+    isVideoOff,
+    isScreenSharing,
+    isEncrypted: false,
+    decryptionFailedIds: [],
+    ...WITHOUT_MODERATION,
+    toggleMute,
+    toggleVideo,
+    startScreenShare,
+    stopScreenShare: () => {
+      stopScreenShare().catch((err) =>
+        console.error("Failed to stop screen share:", err)
+      );
+    },
+    changeAudioInput,
+    changeVideoInput,
+    audioSettings: DEFAULT_AUDIO_SETTINGS,
+    setAudioSettings: unsupported("Audio processing settings"),
+    backgroundEffect: NO_BACKGROUND_EFFECT,
+    setBackgroundEffect: unsupported("Background effects"),
+    setTileSize,
+    setTileVisible,
+    setDetachedParticipants,
+    disconnect,
+  };
+}
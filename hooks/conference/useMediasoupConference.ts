@@ -0,0 +1,15 @@
+import { useMediasoup } from "../useMediasoup";
+import {
+  BACKEND_FEATURES,
+  ConferenceOptions,
+  ConferenceSession,
+  SOCKET_URL,
+} from "@/lib/conference";
+
+// useMediasoup already speaks the shared model, so this only adds config
+export function useMediasoupConference(
+  options: ConferenceOptions
+): ConferenceSession {
+  const session = useMediasoup({ url: SOCKET_URL, ...options });
+  return { ...session, features: BACKEND_FEATURES.mediasoup };
+}
@@ -0,0 +1,73 @@
+import { useCallback, useState } from "react";
+import { useWebRTC } from "../useWebRTC";
+import { useMediasoupConference } from "./useMediasoupConference";
+import {
+  BACKEND_FEATURES,
+  ConferenceOptions,
+  ConferenceSession,
+  DEFAULT_AUDIO_SETTINGS,
+  SOCKET_URL,
+  WITHOUT_MODERATION,
+} from "@/lib/conference";
+import { NO_BACKGROUND_EFFECT } from "@/lib/backgroundProcessor";
+
+const unsupported = (feature: string) => async () => {
+  console.warn(`${feature} is not available in peer-to-peer mode`);
+};
+
+/**
+ * Mesh between the browsers while the room is tiny. When it outgrows the
+ * mesh, the call moves to the mediasoup SFU and stays there.
+ */
+export function useP2PConference({
+  enabled = true,
+  ...options
+}: ConferenceOptions): ConferenceSession {
+  const [isPromoted, setIsPromoted] = useState(false);
+  const handlePromote = useCallback(() => setIsPromoted(true), []);
+
+  const mesh = useWebRTC({
+    url: SOCKET_URL,
+    enabled: enabled && !isPromoted,
+    onPromote: handlePromote,
+    ...options,
+  });
+
+  // Carry the mic and camera state over the switch
+  const sfu = useMediasoupConference({
+    ...options,
+    enabled: enabled && isPromoted,
+    initialMuted: mesh.isMuted,
+    initialVideoOff: mesh.isVideoOff,
+  });
+
+  if (isPromoted) {
+    return {
+      ...sfu,
+      // Nothing to show until the SFU has us, rather than the stale mesh
+      isConnecting: sfu.isConnecting || !sfu.localParticipant,
+    };
+  }
+
+  return {
+    ...mesh,
+    features: BACKEND_FEATURES.p2p,
+    connectionStats: {},
+    uplinkWarning: null,
+    isReconnecting: false,
+    isScreenSharing: false,
+    // Mesh frames aren't run through the E2EE transform
+    isEncrypted: false,
+    decryptionFailedIds: [],
+    ...WITHOUT_MODERATION,
+    startScreenShare: unsupported("Screen sharing"),
+    stopScreenShare: () => {},
+    audioSettings: DEFAULT_AUDIO_SETTINGS,
+    setAudioSettings: unsupported("Audio processing settings"),
+    backgroundEffect: NO_BACKGROUND_EFFECT,
+    setBackgroundEffect: unsupported("Background effects"),
+    setTileSize: () => {},
+    setTileVisible: () => {},
+    setDetachedParticipants: () => {},
+  };
+}
@@ -0,0 +1,205 @@
+import { useEffect, useRef, useState } from "react";
+import type { SignalingClient } from "@/lib/signaling";
+
+export interface SpeakerTrack {
+  id: string;
+  track: MediaStreamTrack;
+}
+
+interface UseActiveSpeakerProps {
+  tracks: SpeakerTrack[];
+  signaling?: SignalingClient | null;
+}
+
+interface TrackAnalyser {
+  trackId: string;
+  source: MediaStreamAudioSourceNode;
+  analyser: AnalyserNode;
+  samples: Float32Array<ArrayBuffer>;
+}
+
+interface SpeakerState {
+  level: number;
+  isSpeaking: boolean;
+  aboveSince: number | null;
+  belowSince: number | null;
+}
+
+const POLL_INTERVAL_MS = 100;
+// RMS levels; the gap between them is the hysteresis band
+const SPEAKING_START_LEVEL = 0.04;
+const SPEAKING_STOP_LEVEL = 0.02;
+// A cough shouldn't light the ring, a breath shouldn't drop it
+const SPEAKING_ATTACK_MS = 150;
+const SPEAKING_RELEASE_MS = 800;
+// How long someone must stay loudest before the spotlight moves to them
+const SPOTLIGHT_HOLD_MS = 1500;
+const SPOTLIGHT_HOLD_IDLE_MS = 400;
+const LEVEL_SMOOTHING = 0.3;
+
+const readLevel = ({ analyser, samples }: TrackAnalyser) => {
+  analyser.getFloatTimeDomainData(samples);
+  let sum = 0;
+  for (const sample of samples) {
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / samples.length);
+};
+
+const updateSpeakerState = (state: SpeakerState, now: number) => {
+  if (state.level >= SPEAKING_START_LEVEL) {
+    state.belowSince = null;
+    state.aboveSince ??= now;
+    if (!state.isSpeaking && now - state.aboveSince >= SPEAKING_ATTACK_MS) {
+      state.isSpeaking = true;
+    }
+  } else if (state.level < SPEAKING_STOP_LEVEL) {
+    state.aboveSince = null;
+    state.belowSince ??= now;
+    if (state.isSpeaking && now - state.belowSince >= SPEAKING_RELEASE_MS) {
+      state.isSpeaking = false;
+    }
+  }
+};
+
+/**
+ * Tracks who is talking from per-track audio levels. `speakingIds` lists
+ * everyone currently above the speaking threshold (for tile rings), while
+ * `activeSpeakerId` is the spotlight, which only moves once someone has
+ * held the floor for a moment. When the server emits `activeSpeaker`
+ * events, the spotlight follows those instead.
+ */
+export function useActiveSpeaker({ tracks, signaling }: UseActiveSpeakerProps) {
+  const [activeSpeakerId, setActiveSpeakerId] = useState<string | null>(null);
+  const [speakingIds, setSpeakingIds] = useState<string[]>([]);
+
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const analysersRef = useRef<Map<string, TrackAnalyser>>(new Map());
+  const statesRef = useRef<Map<string, SpeakerState>>(new Map());
+  const activeSpeakerIdRef = useRef<string | null>(null);
+  const loudestRef = useRef<{ id: string; since: number } | null>(null);
+  const isServerDrivenRef = useRef(false);
+
+  // Keep one analyser per audio track, rebuilding when a track is swapped
+  useEffect(() => {
+    if (typeof AudioContext === "undefined") return;
+
+    const analysers = analysersRef.current;
+    const wanted = new Map(tracks.map((t) => [t.id, t.track]));
+
+    for (const [id, entry] of analysers) {
+      if (wanted.get(id)?.id !== entry.trackId) {
+        entry.source.disconnect();
+        analysers.delete(id);
+        statesRef.current.delete(id);
+      }
+    }
+
+    for (const [id, track] of wanted) {
+      if (analysers.has(id) || track.readyState === "ended") continue;
+
+      audioContextRef.current ??= new AudioContext();
+      const context = audioContextRef.current;
+      if (context.state === "suspended") {
+        context.resume().catch(() => {});
+      }
+
+      const source = context.createMediaStreamSource(new MediaStream([track]));
+      const analyser = context.createAnalyser();
+      analyser.fftSize = 512;
+      source.connect(analyser);
+
+      analysers.set(id, {
+        trackId: track.id,
+        source,
+        analyser,
+        samples: new Float32Array(analyser.fftSize),
+      });
+    }
+  }, [tracks]);
+
+  // Sample levels and derive speaking/spotlight state
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const now = Date.now();
+      const states = statesRef.current;
+
+      for (const [id, analyser] of analysersRef.current) {
+        const state = states.get(id) ?? {
+          level: 0,
+          isSpeaking: false,
+          aboveSince: null,
+          belowSince: null,
+        };
+        state.level += (readLevel(analyser) - state.level) * LEVEL_SMOOTHING;
+        updateSpeakerState(state, now);
+        states.set(id, state);
+      }
+
+      const speaking = [...states.entries()]
+        .filter(([, state]) => state.isSpeaking)
+        .sort(([, a], [, b]) => b.level - a.level)
+        .map(([id]) => id);
+
+      setSpeakingIds((prev) =>
+        prev.length === speaking.length &&
+        prev.every((id) => speaking.includes(id))
+          ? prev
+          : speaking
+      );
+
+      if (isServerDrivenRef.current) return;
+
+      // The spotlight stays on the last speaker through silences
+      const loudest = speaking[0];
+      if (!loudest || loudest === activeSpeakerIdRef.current) {
+        loudestRef.current = null;
+        return;
+      }
+
+      if (loudestRef.current?.id !== loudest) {
+        loudestRef.current = { id: loudest, since: now };
+      }
+
+      const current = activeSpeakerIdRef.current;
+      const hold =
+        current && states.get(current)?.isSpeaking
+          ? SPOTLIGHT_HOLD_MS
+          : SPOTLIGHT_HOLD_IDLE_MS;
+
+      if (!current || now - loudestRef.current.since >= hold) {
+        activeSpeakerIdRef.current = loudest;
+        loudestRef.current = null;
+        setActiveSpeakerId(loudest);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  // Servers running an ActiveSpeakerObserver tell us who holds the floor
+  useEffect(() => {
+    if (!signaling) return;
+
+    return signaling.on("activeSpeaker", ({ peerId }) => {
+      isServerDrivenRef.current = true;
+      if (!peerId) return;
+      activeSpeakerIdRef.current = peerId;
+      setActiveSpeakerId(peerId);
+    });
+  }, [signaling]);
+
+  useEffect(() => {
+    const analysers = analysersRef.current;
+    return () => {
+      for (const entry of analysers.values()) {
+        entry.source.disconnect();
+      }
+      analysers.clear();
+      audioContextRef.current?.close().catch(() => {});
+      audioContextRef.current = null;
+    };
+  }, []);
+
+  return { activeSpeakerId, speakingIds };
+}
@@ -0,0 +1,60 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  BackgroundEffect,
+  BackgroundProcessor,
+  createBackgroundProcessor,
+} from "@/lib/backgroundProcessor";
+
+/**
+ * Processed version of a camera track for previews. Returns null while no
+ * effect is selected or the model is still loading, so callers can show
+ * the raw track meanwhile.
+ */
+export function useBackgroundProcessor(
+  track: MediaStreamTrack | null,
+  effect: BackgroundEffect
+) {
+  const [current, setCurrent] = useState<{
+    input: MediaStreamTrack;
+    processor: BackgroundProcessor;
+  } | null>(null);
+  const effectRef = useRef(effect);
+  const isEnabled = effect.type !== "none";
+
+  useEffect(() => {
+    effectRef.current = effect;
+  }, [effect]);
+
+  // Only a new track or turning effects on/off needs a new processor
+  useEffect(() => {
+    if (!track || !isEnabled) return;
+
+    let cancelled = false;
+    let processor: BackgroundProcessor | null = null;
+
+    createBackgroundProcessor(track, effectRef.current)
+      .then((created) => {
+        if (cancelled) {
+          created.stop();
+          return;
+        }
+        processor = created;
+        setCurrent({ input: track, processor: created });
+      })
+      .catch((err) => console.error("Background effect unavailable:", err));
+
+    return () => {
+      cancelled = true;
+      processor?.stop();
+    };
+  }, [track, isEnabled]);
+
+  const processor =
+    isEnabled && current?.input === track ? current.processor : null;
+
+  useEffect(() => {
+    processor?.setEffect(effect);
+  }, [processor, effect]);
+
+  return processor?.track ?? null;
+}
@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from "react";
+
+// Support never changes at runtime, so there is nothing to subscribe to
+const subscribe = () => () => {};
+
+/**
+ * Whether the browser has a feature, false while rendering on the server.
+ * Reading it this way keeps hydration from mismatching.
+ */
+export function useBrowserSupport(isSupported: () => boolean) {
+  return useSyncExternalStore(subscribe, isSupported, () => false);
+}
@@ -0,0 +1,53 @@
+import { useCallback, useState } from "react";
+import { useMediasoupConference } from "./conference/useMediasoupConference";
+import { useLiveKitConference } from "./conference/useLiveKitConference";
+import { useP2PConference } from "./conference/useP2PConference";
+import {
+  Conference,
+  CONFERENCE_BACKEND,
+  ConferenceBackend,
+  ConferenceOptions,
+  ConferenceSession,
+  ViewMode,
+} from "@/lib/conference";
+
+const ADAPTERS: Record<
+  ConferenceBackend,
+  (options: ConferenceOptions) => ConferenceSession
+> = {
+  mediasoup: useMediasoupConference,
+  livekit: useLiveKitConference,
+  p2p: useP2PConference,
+};
+
+// Fixed at build time, so the same hook runs on every render
+const useBackend = ADAPTERS[CONFERENCE_BACKEND];
+
+/**
+ * The room's conference session, whichever backend is configured through
+ * NEXT_PUBLIC_CONFERENCE_BACKEND.
+ */
+export function useConference(options: ConferenceOptions): Conference {
+  const session = useBackend(options);
+  const [viewMode, setViewMode] = useState<ViewMode>("grid");
+  const [pinnedIds, setPinnedIds] = useState<string[]>([]);
+
+  const togglePin = useCallback((participantId: string) => {
+    setPinnedIds((prev) =>
+      prev.includes(participantId)
+        ? prev.filter((id) => id !== participantId)
+        : [...prev, participantId]
+    );
+  }, []);
+
+  const clearPins = useCallback(() => setPinnedIds([]), []);
+
+  return {
+    ...session,
+    viewMode,
+    setViewMode,
+    pinnedIds,
+    togglePin,
+    clearPins,
+  };
+}
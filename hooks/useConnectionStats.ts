@@ -0,0 +1,334 @@
+import { useEffect, useRef, useState, RefObject } from "react";
+import { types as mediasoupTypes } from "mediasoup-client";
+import type {
+  ConnectionQuality,
+  ConnectionStats,
+  MediaStats,
+  UplinkWarning,
+} from "@/lib/conference";
+import type { ProducerSource } from "@/lib/signaling";
+
+interface UseConnectionStatsProps {
+  enabled: boolean;
+  localId: string | null;
+  producersRef: RefObject<Map<string, mediasoupTypes.Producer>>;
+  consumersRef: RefObject<
+    Map<
+      string,
+      {
+        consumer: mediasoupTypes.Consumer;
+        peerId: string;
+        source: ProducerSource;
+      }
+    >
+  >;
+  sendTransportRef: RefObject<mediasoupTypes.Transport | null>;
+  recvTransportRef: RefObject<mediasoupTypes.Transport | null>;
+}
+
+// Not in lib.dom yet
+interface RemoteInboundRtpStats extends RTCStats {
+  fractionLost?: number;
+  roundTripTime?: number;
+  jitter?: number;
+}
+
+interface Counters {
+  timestamp: number;
+  bytes: number;
+  packets: number;
+  packetsLost: number;
+}
+
+const STATS_INTERVAL_MS = 2000;
+// Polls in a row the uplink must look bad before we warn about it
+const UPLINK_WARNING_POLLS = 2;
+
+const QUALITY_ORDER: ConnectionQuality[] = ["bad", "poor", "good", "excellent"];
+
+const getQuality = (
+  packetLoss: number,
+  rtt: number | null,
+  jitter: number
+): ConnectionQuality => {
+  const roundTrip = rtt ?? 0;
+  if (packetLoss >= 10 || roundTrip >= 600 || jitter >= 100) return "bad";
+  if (packetLoss >= 4 || roundTrip >= 300 || jitter >= 50) return "poor";
+  if (packetLoss >= 1 || roundTrip >= 150 || jitter >= 30) return "good";
+  return "excellent";
+};
+
+const capQuality = (
+  quality: ConnectionQuality,
+  cap: ConnectionQuality
+): ConnectionQuality =>
+  QUALITY_ORDER.indexOf(quality) > QUALITY_ORDER.indexOf(cap) ? cap : quality;
+
+const getReport = async (
+  source: { getStats: () => Promise<RTCStatsReport>; closed: boolean } | null
+) => {
+  if (!source || source.closed) return null;
+  try {
+    return await source.getStats();
+  } catch {
+    return null;
+  }
+};
+
+const getCandidatePair = (report: RTCStatsReport | null) => {
+  let pair: RTCIceCandidatePairStats | null = null;
+  report?.forEach((stat) => {
+    if (stat.type === "candidate-pair" && stat.nominated) {
+      pair = stat;
+    }
+  });
+  return pair as RTCIceCandidatePairStats | null;
+};
+
+/**
+ * Polls getStats() on every producer, consumer and transport and boils the
+ * reports down to bitrate, loss, jitter and RTT per participant, plus a
+ * quality rating for the signal indicator on each tile.
+ */
+export function useConnectionStats({
+  enabled,
+  localId,
+  producersRef,
+  consumersRef,
+  sendTransportRef,
+  recvTransportRef,
+}: UseConnectionStatsProps) {
+  const [stats, setStats] = useState<Record<string, ConnectionStats>>({});
+  const [uplinkWarning, setUplinkWarning] = useState<UplinkWarning | null>(
+    null
+  );
+  const countersRef = useRef<Map<string, Counters>>(new Map());
+  const degradedPollsRef = useRef(0);
+
+  useEffect(() => {
+    if (!enabled || !localId) return;
+
+    let cancelled = false;
+    const counters = countersRef.current;
+
+    // Turn cumulative counters into per-interval rates
+    const getRates = (
+      id: string,
+      timestamp: number,
+      bytes: number,
+      packets: number,
+      packetsLost: number
+    ) => {
+      const previous = counters.get(id);
+      counters.set(id, { timestamp, bytes, packets, packetsLost });
+      if (!previous || timestamp <= previous.timestamp) {
+        return { bitrate: 0, packetLoss: 0 };
+      }
+
+      const seconds = (timestamp - previous.timestamp) / 1000;
+      const lost = Math.max(0, packetsLost - previous.packetsLost);
+      const received = Math.max(0, packets - previous.packets);
+      return {
+        bitrate: Math.max(0, ((bytes - previous.bytes) * 8) / seconds),
+        packetLoss: lost + received > 0 ? (lost / (lost + received)) * 100 : 0,
+      };
+    };
+
+    const readInbound = (report: RTCStatsReport | null): MediaStats | null => {
+      let result: MediaStats | null = null;
+      report?.forEach((stat: RTCInboundRtpStreamStats) => {
+        if (stat.type !== "inbound-rtp") return;
+        result = {
+          ...getRates(
+            stat.id,
+            stat.timestamp,
+            stat.bytesReceived ?? 0,
+            stat.packetsReceived ?? 0,
+            stat.packetsLost ?? 0
+          ),
+          jitter: (stat.jitter ?? 0) * 1000,
+          frameWidth: stat.frameWidth,
+          frameHeight: stat.frameHeight,
+          framesPerSecond: stat.framesPerSecond,
+        };
+      });
+      return result;
+    };
+
+    // Simulcast sends several outbound streams for one producer
+    const readOutbound = (report: RTCStatsReport | null) => {
+      if (!report) return null;
+
+      const media: MediaStats = { bitrate: 0, packetLoss: 0, jitter: 0 };
+      let rtt: number | null = null;
+      let limitation: RTCQualityLimitationReason | undefined;
+
+      report.forEach((stat: RTCStats) => {
+        if (stat.type === "outbound-rtp") {
+          const outbound = stat as RTCOutboundRtpStreamStats;
+          media.bitrate += getRates(
+            outbound.id,
+            outbound.timestamp,
+            outbound.bytesSent ?? 0,
+            outbound.packetsSent ?? 0,
+            0
+          ).bitrate;
+          if ((outbound.frameWidth ?? 0) > (media.frameWidth ?? 0)) {
+            media.frameWidth = outbound.frameWidth;
+            media.frameHeight = outbound.frameHeight;
+            media.framesPerSecond = outbound.framesPerSecond;
+          }
+          if (
+            outbound.qualityLimitationReason &&
+            outbound.qualityLimitationReason !== "none"
+          ) {
+            limitation = outbound.qualityLimitationReason;
+          }
+        } else if (stat.type === "remote-inbound-rtp") {
+          // What the SFU reports back about our stream
+          const remote = stat as RemoteInboundRtpStats;
+          media.packetLoss = Math.max(
+            media.packetLoss,
+            (remote.fractionLost ?? 0) * 100
+          );
+          media.jitter = Math.max(media.jitter, (remote.jitter ?? 0) * 1000);
+          if (remote.roundTripTime !== undefined) {
+            rtt = Math.max(rtt ?? 0, remote.roundTripTime * 1000);
+          }
+        }
+      });
+
+      return { media, rtt, limitation };
+    };
+
+    const collect = async () => {
+      const [sendReport, recvReport] = await Promise.all([
+        getReport(sendTransportRef.current),
+        getReport(recvTransportRef.current),
+      ]);
+      const sendPair = getCandidatePair(sendReport);
+      const recvPair = getCandidatePair(recvReport);
+      const recvRtt =
+        recvPair?.currentRoundTripTime !== undefined
+          ? recvPair.currentRoundTripTime * 1000
+          : null;
+
+      const next: Record<string, ConnectionStats> = {};
+
+      // Remote participants: what we receive from each of them
+      const consumerEntries = [...(consumersRef.current?.values() ?? [])];
+      const consumerReports = await Promise.all(
+        consumerEntries.map(({ consumer }) => getReport(consumer))
+      );
+      consumerEntries.forEach(({ consumer, peerId, source }, index) => {
+        const media = readInbound(consumerReports[index]);
+        if (!media) return;
+        const entry = (next[peerId] ??= {
+          quality: "unknown",
+          audio: null,
+          video: null,
+          rtt: recvRtt,
+        });
+        // Screen shares only stand in when there's no camera or mic
+        if (consumer.kind === "audio") {
+          if (!entry.audio || source === "mic") entry.audio = media;
+        } else if (!entry.video || source === "camera") {
+          entry.video = media;
+        }
+      });
+
+      for (const entry of Object.values(next)) {
+        const loss = Math.max(
+          entry.audio?.packetLoss ?? 0,
+          entry.video?.packetLoss ?? 0
+        );
+        const jitter = Math.max(
+          entry.audio?.jitter ?? 0,
+          entry.video?.jitter ?? 0
+        );
+        entry.quality = getQuality(loss, entry.rtt, jitter);
+      }
+
+      // Local participant: our uplink
+      const local: ConnectionStats = {
+        quality: "unknown",
+        audio: null,
+        video: null,
+        rtt:
+          sendPair?.currentRoundTripTime !== undefined
+            ? sendPair.currentRoundTripTime * 1000
+            : null,
+        availableOutgoingBitrate: sendPair?.availableOutgoingBitrate,
+      };
+
+      for (const producer of producersRef.current?.values() ?? []) {
+        if (producer.paused) continue;
+        const outbound = readOutbound(await getReport(producer));
+        if (!outbound) continue;
+
+        if (producer.kind === "audio") {
+          local.audio ??= outbound.media;
+        } else if (!local.video || producer.appData.source === "camera") {
+          local.video = outbound.media;
+        }
+        local.rtt ??= outbound.rtt;
+        local.qualityLimitationReason ??= outbound.limitation;
+      }
+
+      if (local.audio || local.video) {
+        local.quality = getQuality(
+          Math.max(local.audio?.packetLoss ?? 0, local.video?.packetLoss ?? 0),
+          local.rtt,
+          Math.max(local.audio?.jitter ?? 0, local.video?.jitter ?? 0)
+        );
+        if (local.qualityLimitationReason === "bandwidth") {
+          local.quality = capQuality(local.quality, "poor");
+        } else if (local.qualityLimitationReason === "cpu") {
+          local.quality = capQuality(local.quality, "good");
+        }
+      }
+      next[localId] = local;
+
+      if (cancelled) return;
+      setStats(next);
+
+      // Only warn about a sustained problem, not a single bad sample
+      const isDegraded =
+        local.quality === "poor" ||
+        local.quality === "bad" ||
+        local.qualityLimitationReason === "bandwidth" ||
+        local.qualityLimitationReason === "cpu";
+      degradedPollsRef.current = isDegraded ? degradedPollsRef.current + 1 : 0;
+
+      let warning: UplinkWarning | null = null;
+      if (degradedPollsRef.current >= UPLINK_WARNING_POLLS) {
+        warning =
+          local.qualityLimitationReason === "bandwidth" ||
+          local.qualityLimitationReason === "cpu"
+            ? local.qualityLimitationReason
+            : "network";
+      }
+      setUplinkWarning(warning);
+    };
+
+    const interval = setInterval(() => {
+      collect().catch((err) => console.error("Error collecting stats:", err));
+    }, STATS_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      counters.clear();
+      degradedPollsRef.current = 0;
+    };
+  }, [
+    enabled,
+    localId,
+    producersRef,
+    consumersRef,
+    sendTransportRef,
+    recvTransportRef,
+  ]);
+
+  return { connectionStats: stats, uplinkWarning };
+}
@@ -0,0 +1,19 @@
+import { useEffect, useState } from "react";
+
+// Whole seconds left until a deadline in epoch milliseconds, ticking
+// every second; null when there is no deadline
+export function useCountdown(endsAt: number | null) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (endsAt === null) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [endsAt]);
+
+  if (endsAt === null) return null;
+  return Math.max(0, Math.ceil((endsAt - now) / 1000));
+}
+
+export const formatCountdown = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
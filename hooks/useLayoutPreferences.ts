@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  DEFAULT_LAYOUT_PREFERENCES,
+  LayoutPreferences,
+  loadLayoutPreferences,
+  saveLayoutPreferences,
+} from "@/lib/layoutPreferences";
+
+// This room's layout preferences, saved whenever they change
+export function useLayoutPreferences(roomId: string) {
+  const [preferences, setPreferences] = useState(() =>
+    loadLayoutPreferences(roomId)
+  );
+
+  useEffect(() => {
+    // Nothing worth remembering until something is changed
+    if (preferences === DEFAULT_LAYOUT_PREFERENCES) return;
+    saveLayoutPreferences(roomId, preferences);
+  }, [roomId, preferences]);
+
+  const updatePreferences = useCallback(
+    (changes: Partial<LayoutPreferences>) => {
+      setPreferences((prev) => ({ ...prev, ...changes }));
+    },
+    []
+  );
+
+  return { preferences, updatePreferences };
+}
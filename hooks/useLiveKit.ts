@@ -5,15 +5,9 @@ import {
   Participant,
   LocalParticipant,
   RemoteParticipant,
+  Track,
 } from "livekit-client";
-
-export type ViewMode = "grid" | "speaker" | "sidebar";
-
-export interface DeviceSelections {
-  audioInput?: string;
-  videoInput?: string;
-  audioOutput?: string;
-}
+import type { DeviceSelections } from "@/lib/conference";
 
 interface UseLiveKitProps {
   url: string;
@@ -42,8 +36,10 @@ export function useLiveKit({
   const [error, setError] = useState<Error | null>(null);
   const [isMuted, setIsMuted] = useState(initialMuted);
   const [isVideoOff, setIsVideoOff] = useState(initialVideoOff);
-  const [viewMode, setViewMode] = useState<ViewMode>("grid");
+  const [isScreenSharing, setIsScreenSharing] = useState(false);
   const [activeSpeaker, setActiveSpeaker] = useState<Participant | null>(null);
+  // LiveKit mutates participants in place, so track changes bump this
+  const [revision, setRevision] = useState(0);
   const isConnectingRef = useRef(false);
   const onDisconnectedRef = useRef(onDisconnected);
   const hasConnectedRef = useRef(false);
@@ -68,8 +64,10 @@ export function useLiveKit({
     let mounted = true;
     isConnectingRef.current = true;
 
+    // Tiles render the raw tracks, so adaptive stream would never see them
+    // attached; callers size and pause subscriptions themselves instead.
     const lkRoom = new Room({
-      adaptiveStream: true,
+      adaptiveStream: false,
       dynacast: true,
       videoCaptureDefaults: {
         resolution: {
@@ -166,6 +164,24 @@ export function useLiveKit({
         lkRoom.on(RoomEvent.LocalTrackPublished, () => {
           setLocalParticipant(lkRoom.localParticipant);
         });
+
+        // Covers the browser's own "Stop sharing" button too
+        lkRoom.on(RoomEvent.LocalTrackUnpublished, (publication) => {
+          if (publication.source === Track.Source.ScreenShare) {
+            setIsScreenSharing(false);
+          }
+        });
+
+        const refresh = () => setRevision((prev) => prev + 1);
+        lkRoom
+          .on(RoomEvent.TrackSubscribed, refresh)
+          .on(RoomEvent.TrackUnsubscribed, refresh)
+          .on(RoomEvent.TrackMuted, refresh)
+          .on(RoomEvent.TrackUnmuted, refresh)
+          .on(RoomEvent.LocalTrackPublished, refresh)
+          .on(RoomEvent.LocalTrackUnpublished, refresh)
+          .on(RoomEvent.ActiveSpeakersChanged, refresh)
+          .on(RoomEvent.ParticipantNameChanged, refresh);
       } catch (err) {
         console.error("Failed to connect to LiveKit:", err);
         setError(err as Error);
@@ -200,6 +216,23 @@ export function useLiveKit({
     setIsVideoOff(currentlyEnabled);
   };
 
+  const startScreenShare = async () => {
+    if (!localParticipant) return;
+    try {
+      await localParticipant.setScreenShareEnabled(true, { audio: true });
+      setIsScreenSharing(true);
+    } catch (err) {
+      // Cancelling the picker lands here too
+      console.error("Failed to start screen share:", err);
+    }
+  };
+
+  const stopScreenShare = async () => {
+    if (!localParticipant) return;
+    await localParticipant.setScreenShareEnabled(false);
+    setIsScreenSharing(false);
+  };
+
   const disconnect = () => {
     if (room) {
       room.disconnect();
@@ -214,11 +247,13 @@ export function useLiveKit({
     error,
     isMuted,
     isVideoOff,
-    viewMode,
+    isScreenSharing,
     activeSpeaker,
+    revision,
     toggleMute,
     toggleVideo,
+    startScreenShare,
+    stopScreenShare,
     disconnect,
-    setViewMode,
   };
 }
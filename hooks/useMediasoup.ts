@@ -1,22 +1,54 @@
-import { useEffect, useState, useRef, useCallback } from "react";
+import { useEffect, useState, useRef, useCallback, useMemo } from "react";
 import { io, Socket } from "socket.io-client";
 import { Device, types as mediasoupTypes } from "mediasoup-client";
-
-export type ViewMode = "grid" | "speaker" | "sidebar";
-
-export interface DeviceSelections {
-  audioInput?: string;
-  videoInput?: string;
-  audioOutput?: string;
-}
+import { useActiveSpeaker, SpeakerTrack } from "./useActiveSpeaker";
+import { useConnectionStats } from "./useConnectionStats";
+import { useSignaling } from "./useSignaling";
+import {
+  BreakoutState,
+  DataProducerInfo,
+  isAccessDeniedError,
+  isRoomLockedError,
+  ProducerInfo,
+  ProducerSource,
+  RemovalReason,
+  RoomCredentials,
+  ServerEvents,
+  WaitingPeer,
+} from "@/lib/signaling";
+import {
+  Admission,
+  AudioSettings,
+  BreakoutBroadcast,
+  DEFAULT_AUDIO_SETTINGS,
+  DeviceSelections,
+  HostControls,
+  HostNotice,
+  NO_BREAKOUTS,
+  TileSize,
+} from "@/lib/conference";
+import {
+  BackgroundEffect,
+  BackgroundProcessor,
+  createBackgroundProcessor,
+  NO_BACKGROUND_EFFECT,
+} from "@/lib/backgroundProcessor";
+import { createE2EESession, E2EESession } from "@/lib/e2ee";
+import { createRoomMessenger } from "@/lib/roomEvents";
+import { getHostKey } from "@/lib/hostKey";
+
+export type { ProducerSource } from "@/lib/signaling";
 
 export interface RemoteParticipant {
   id: string;
   name: string;
   videoTrack: MediaStreamTrack | null;
   audioTrack: MediaStreamTrack | null;
+  screenTrack: MediaStreamTrack | null;
+  screenAudioTrack: MediaStreamTrack | null;
   isMuted: boolean;
   isVideoOff: boolean;
+  joinedAt: number;
 }
 
 export interface LocalParticipant {
@@ -26,8 +58,11 @@ export interface LocalParticipant {
   isCameraEnabled: boolean;
   videoTrack: MediaStreamTrack | null;
   audioTrack: MediaStreamTrack | null;
+  screenTrack: MediaStreamTrack | null;
+  screenAudioTrack: MediaStreamTrack | null;
   isMuted: boolean;
   isVideoOff: boolean;
+  joinedAt: number;
 }
 
 interface UseMediasoupProps {
@@ -39,14 +74,134 @@ interface UseMediasoupProps {
   initialMuted?: boolean;
   initialVideoOff?: boolean;
   initialDevices?: DeviceSelections;
+  initialBackgroundEffect?: BackgroundEffect;
+  e2eePassphrase?: string;
+  credentials?: RoomCredentials;
 }
 
-interface ProducerInfo {
-  producerId: string;
-  peerId: string;
-  peerName: string;
-  kind: "audio" | "video";
-}
+const SOCKET_RECONNECT_ATTEMPTS = 10;
+const ICE_RESTART_DELAY_MS = 2000;
+const MAX_ICE_RESTARTS = 3;
+const REJOIN_RETRY_DELAY_MS = 3000;
+const ROOM_EVENTS_LABEL = "room-events";
+// Speaking this long with a hand up means we've had our turn
+const HAND_AUTO_LOWER_MS = 5000;
+
+// Three spatial layers with three temporal layers each, so viewers can be
+// sent anything from a thumbnail at 7.5fps to full resolution
+const SIMULCAST_ENCODINGS: mediasoupTypes.RtpEncodingParameters[] = [
+  { scaleResolutionDownBy: 4, maxBitrate: 150_000, scalabilityMode: "L1T3" },
+  { scaleResolutionDownBy: 2, maxBitrate: 500_000, scalabilityMode: "L1T3" },
+  { scaleResolutionDownBy: 1, maxBitrate: 1_500_000, scalabilityMode: "L1T3" },
+];
+
+// Layer to request for a tile of a given width (in device pixels)
+const VIDEO_LAYERS = [
+  { maxWidth: 240, spatialLayer: 0, temporalLayer: 1 },
+  { maxWidth: 400, spatialLayer: 0, temporalLayer: 2 },
+  { maxWidth: 800, spatialLayer: 1, temporalLayer: 2 },
+  { maxWidth: Infinity, spatialLayer: 2, temporalLayer: 2 },
+];
+
+const LAYER_UPDATE_DELAY_MS = 300;
+
+const VOICE_MAX_BITRATE = 40_000;
+const MUSIC_MAX_BITRATE = 128_000;
+
+// Stereo and the Opus bitrate ceiling are negotiated once per producer, so
+// the mic always allows them and an encoding cap keeps voice lean
+const MIC_CODEC_OPTIONS: mediasoupTypes.ProducerCodecOptions = {
+  opusStereo: true,
+  opusFec: true,
+  opusMaxAverageBitrate: MUSIC_MAX_BITRATE,
+};
+
+const getMicEncoding = ({
+  musicMode,
+}: AudioSettings): RTCRtpEncodingParameters => ({
+  maxBitrate: musicMode ? MUSIC_MAX_BITRATE : VOICE_MAX_BITRATE,
+});
+
+const getAudioConstraints = (
+  deviceId: ConstrainDOMString | undefined,
+  settings: AudioSettings
+): MediaTrackConstraints => ({
+  ...(deviceId && { deviceId }),
+  ...(settings.musicMode
+    ? {
+        echoCancellation: false,
+        noiseSuppression: false,
+        autoGainControl: false,
+        channelCount: { ideal: 2 },
+        sampleRate: { ideal: 48000 },
+      }
+    : {
+        echoCancellation: settings.echoCancellation,
+        noiseSuppression: settings.noiseSuppression,
+        autoGainControl: settings.autoGainControl,
+      }),
+});
+
+const getPreferredLayers = ({ width, height }: TileSize) => {
+  // Tiles use object-cover, so a 16:9 frame has to cover the whole tile
+  const renderedWidth =
+    Math.max(width, (height * 16) / 9) * (window.devicePixelRatio || 1);
+  return VIDEO_LAYERS.find((layer) => renderedWidth <= layer.maxWidth)!;
+};
+
+// Producers never stop their tracks: the local stream outlives transports
+const getProduceOptions = (
+  source: ProducerSource,
+  audioSettings = DEFAULT_AUDIO_SETTINGS
+): Omit<mediasoupTypes.ProducerOptions, "track"> => ({
+  stopTracks: false,
+  appData: { source },
+  ...(source === "mic" && {
+    encodings: [getMicEncoding(audioSettings)],
+    codecOptions: MIC_CODEC_OPTIONS,
+  }),
+  ...(source === "camera" && {
+    encodings: SIMULCAST_ENCODINGS,
+    codecOptions: { videoGoogleStartBitrate: 1000 },
+  }),
+});
+
+// Participant fields fed by each producer source
+const SOURCE_TRACK_KEYS = {
+  mic: "audioTrack",
+  camera: "videoTrack",
+  screen: "screenTrack",
+  screenAudio: "screenAudioTrack",
+} as const;
+
+const SOURCE_STATE_KEYS: Partial<
+  Record<ProducerSource, "isMuted" | "isVideoOff">
+> = {
+  mic: "isMuted",
+  camera: "isVideoOff",
+};
+
+// Producers from older clients carry no appData, so fall back to the kind
+const getProducerSource = (
+  kind: mediasoupTypes.MediaKind,
+  appData?: { source?: ProducerSource }
+): ProducerSource => appData?.source ?? (kind === "audio" ? "mic" : "camera");
+
+const createRemoteParticipant = (
+  id: string,
+  name: string,
+  joinedAt = Date.now()
+): RemoteParticipant => ({
+  id,
+  name,
+  joinedAt,
+  videoTrack: null,
+  audioTrack: null,
+  screenTrack: null,
+  screenAudioTrack: null,
+  isMuted: true,
+  isVideoOff: true,
+});
 
 export function useMediasoup({
   url,
@@ -57,6 +212,9 @@ export function useMediasoup({
   initialMuted = false,
   initialVideoOff = false,
   initialDevices,
+  initialBackgroundEffect = NO_BACKGROUND_EFFECT,
+  e2eePassphrase,
+  credentials,
 }: UseMediasoupProps) {
   const [socket, setSocket] = useState<Socket | null>(null);
   const [participants, setParticipants] = useState<RemoteParticipant[]>([]);
@@ -66,66 +224,254 @@ export function useMediasoup({
   const [error, setError] = useState<Error | null>(null);
   const [isMuted, setIsMuted] = useState(initialMuted);
   const [isVideoOff, setIsVideoOff] = useState(initialVideoOff);
-  const [viewMode, setViewMode] = useState<ViewMode>("grid");
-  const [activeSpeaker, setActiveSpeaker] = useState<RemoteParticipant | null>(
+  const [isScreenSharing, setIsScreenSharing] = useState(false);
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  const [backgroundEffect, setBackgroundEffectState] = useState(
+    initialBackgroundEffect
+  );
+  const [audioSettings, setAudioSettingsState] = useState(
+    DEFAULT_AUDIO_SETTINGS
+  );
+  const [decryptionFailedIds, setDecryptionFailedIds] = useState<string[]>([]);
+  const [admission, setAdmission] = useState<Admission>("knocking");
+  const [hostId, setHostId] = useState<string | null>(null);
+  const [isRoomLocked, setIsRoomLocked] = useState(false);
+  const [hasWaitingRoom, setHasWaitingRoom] = useState(false);
+  const [hasPassword, setHasPassword] = useState(false);
+  const [raisedHands, setRaisedHands] = useState<string[]>([]);
+  const [spotlightIds, setSpotlightIds] = useState<string[]>([]);
+  const [breakouts, setBreakouts] = useState<BreakoutState>(NO_BREAKOUTS);
+  const [breakoutBroadcast, setBreakoutBroadcast] =
+    useState<BreakoutBroadcast | null>(null);
+  const [waitingPeers, setWaitingPeers] = useState<WaitingPeer[]>([]);
+  const [hostNotice, setHostNotice] = useState<HostNotice | null>(null);
+  const [removedReason, setRemovedReason] = useState<RemovalReason | null>(
     null
   );
 
+  // The room we're in: the main room, or one of its breakouts
+  const roomIdRef = useRef(roomId);
+
   // Refs for mediasoup
   const deviceRef = useRef<Device | null>(null);
   const sendTransportRef = useRef<mediasoupTypes.Transport | null>(null);
   const recvTransportRef = useRef<mediasoupTypes.Transport | null>(null);
   const producersRef = useRef<Map<string, mediasoupTypes.Producer>>(new Map());
   const consumersRef = useRef<
-    Map<string, { consumer: mediasoupTypes.Consumer; peerId: string }>
+    Map<
+      string,
+      {
+        consumer: mediasoupTypes.Consumer;
+        peerId: string;
+        source: ProducerSource;
+      }
+    >
   >(new Map());
   const localStreamRef = useRef<MediaStream | null>(null);
+  const screenStreamRef = useRef<MediaStream | null>(null);
+  // Camera frames go through this before being shown or sent, if an effect is on
+  const backgroundProcessorRef = useRef<BackgroundProcessor | null>(null);
+  const backgroundEffectRef = useRef(initialBackgroundEffect);
+  const audioSettingsRef = useRef(DEFAULT_AUDIO_SETTINGS);
   const isConnectedRef = useRef(false);
   const onDisconnectedRef = useRef(onDisconnected);
   const pendingProducersRef = useRef<ProducerInfo[]>([]);
+  // Room events (chat, reactions) over SCTP, ours and every other peer's
+  const dataProducerRef = useRef<mediasoupTypes.DataProducer | null>(null);
+  const dataConsumersRef = useRef<
+    Map<string, { dataConsumer: mediasoupTypes.DataConsumer; peerId: string }>
+  >(new Map());
+  const pendingDataProducersRef = useRef<DataProducerInfo[]>([]);
+  // Rendered camera tile size per peer, and the layers last requested per consumer
+  const tileSizesRef = useRef<Map<string, TileSize>>(new Map());
+  const requestedLayersRef = useRef<Map<string, string>>(new Map());
+  const layerTimersRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(
+    new Map()
+  );
+  // How many of each peer's camera tiles are currently visible
+  const visibleTilesRef = useRef<Map<string, number>>(new Map());
+  const detachedPeersRef = useRef<Set<string>>(new Set());
+  const e2eeRef = useRef<E2EESession | null>(null);
+  // Consumers whose frames don't decrypt, by consumer id to peer id
+  const failedDecryptionsRef = useRef<Map<string, string>>(new Map());
 
   useEffect(() => {
     onDisconnectedRef.current = onDisconnected;
   }, [onDisconnected]);
 
-  // Socket request helper with promise
-  const socketRequest = useCallback(
-    <T>(event: string, data: any): Promise<T> => {
-      return new Promise((resolve, reject) => {
-        if (!socket) {
-          reject(new Error("Socket not connected"));
-          return;
+  const signaling = useSignaling(socket);
+
+  const messenger = useMemo(
+    () =>
+      signaling && roomId && userName
+        ? createRoomMessenger({ signaling, roomId, userName })
+        : null,
+    [signaling, roomId, userName]
+  );
+
+  const setConsumerDecrypting = useCallback(
+    (consumerId: string, peerId: string | null) => {
+      const failed = failedDecryptionsRef.current;
+      if (peerId) {
+        failed.set(consumerId, peerId);
+      } else if (!failed.delete(consumerId)) {
+        return;
+      }
+      setDecryptionFailedIds([...new Set(failed.values())]);
+    },
+    []
+  );
+
+  // The camera track to show and send for a raw one. Leaves any previous
+  // processor running so callers can swap tracks before stopping it.
+  const processCameraTrack = useCallback(async (track: MediaStreamTrack) => {
+    backgroundProcessorRef.current = null;
+    const effect = backgroundEffectRef.current;
+    if (effect.type === "none") return track;
+
+    try {
+      const processor = await createBackgroundProcessor(track, effect);
+      backgroundProcessorRef.current = processor;
+      return processor.track;
+    } catch (err) {
+      // Sending the plain camera beats sending nothing
+      console.error("Background effect unavailable:", err);
+      return track;
+    }
+  }, []);
+
+  // Ask the server for the simulcast layer that fits the peer's tile
+  const requestPreferredLayers = useCallback(
+    (peerId: string) => {
+      const size = tileSizesRef.current.get(peerId);
+      if (!size) return;
+
+      for (const [consumerId, entry] of consumersRef.current) {
+        if (entry.peerId !== peerId || entry.source !== "camera") continue;
+
+        const { spatialLayer, temporalLayer } = getPreferredLayers(size);
+        const key = `${spatialLayer}:${temporalLayer}`;
+        if (requestedLayersRef.current.get(consumerId) === key) continue;
+        requestedLayersRef.current.set(consumerId, key);
+
+        signaling
+          ?.request("setConsumerPreferredLayers", {
+            roomId: roomIdRef.current,
+            consumerId,
+            spatialLayer,
+            temporalLayer,
+          })
+          .catch((err) => {
+            requestedLayersRef.current.delete(consumerId);
+            console.error("Error setting preferred layers:", err);
+          });
+      }
+    },
+    [signaling]
+  );
+
+  // Tiles resize continuously while layouts animate, so settle first
+  const setTileSize = useCallback(
+    (peerId: string, size: TileSize) => {
+      tileSizesRef.current.set(peerId, size);
+
+      clearTimeout(layerTimersRef.current.get(peerId));
+      layerTimersRef.current.set(
+        peerId,
+        setTimeout(() => {
+          layerTimersRef.current.delete(peerId);
+          requestPreferredLayers(peerId);
+        }, LAYER_UPDATE_DELAY_MS)
+      );
+    },
+    [requestPreferredLayers]
+  );
+
+  // Pause camera consumers for peers with no visible tile and resume them
+  // once one comes back. Peers whose tiles haven't reported yet keep flowing.
+  const syncConsumerVisibility = useCallback(
+    (peerId: string) => {
+      const visibleTiles = visibleTilesRef.current.get(peerId);
+      const isDetached = detachedPeersRef.current.has(peerId);
+      if ((visibleTiles === undefined && !isDetached) || !signaling) return;
+      const shouldPause = isDetached || visibleTiles === 0;
+
+      for (const [consumerId, entry] of consumersRef.current) {
+        const { consumer } = entry;
+        if (entry.peerId !== peerId || entry.source !== "camera") continue;
+        if (consumer.closed || consumer.paused === shouldPause) continue;
+
+        if (shouldPause) {
+          consumer.pause();
+        } else {
+          consumer.resume();
         }
-        socket.emit(event, data, (response: T & { error?: string }) => {
-          if (response.error) {
-            reject(new Error(response.error));
-          } else {
-            resolve(response);
-          }
-        });
-      });
+        signaling
+          .request(shouldPause ? "pauseConsumer" : "resumeConsumer", {
+            roomId: roomIdRef.current,
+            consumerId,
+          })
+          .catch((err) =>
+            console.error("Error updating consumer visibility:", err)
+          );
+      }
     },
-    [socket]
+    [signaling]
   );
 
+  const setTileVisible = useCallback(
+    (peerId: string, isVisible: boolean) => {
+      const visibleTiles = visibleTilesRef.current.get(peerId) ?? 0;
+      visibleTilesRef.current.set(
+        peerId,
+        Math.max(0, visibleTiles + (isVisible ? 1 : -1))
+      );
+      syncConsumerVisibility(peerId);
+    },
+    [syncConsumerVisibility]
+  );
+
+  const setDetachedParticipants = useCallback(
+    (peerIds: string[]) => {
+      const previous = detachedPeersRef.current;
+      const next = new Set(peerIds);
+      detachedPeersRef.current = next;
+      for (const peerId of new Set([...previous, ...next])) {
+        if (previous.has(peerId) !== next.has(peerId)) {
+          syncConsumerVisibility(peerId);
+        }
+      }
+    },
+    [syncConsumerVisibility]
+  );
+
+  useEffect(() => {
+    const timers = layerTimersRef.current;
+    return () => {
+      for (const timer of timers.values()) clearTimeout(timer);
+      timers.clear();
+    };
+  }, []);
+
   // Consume a producer (receive media from another peer)
   const consumeProducer = useCallback(
     async (producerInfo: ProducerInfo) => {
-      if (!recvTransportRef.current || !deviceRef.current || !socket) return;
+      if (!recvTransportRef.current || !deviceRef.current || !signaling) {
+        return;
+      }
+
+      // Rejoins replay producers we may already be consuming
+      for (const { consumer } of consumersRef.current.values()) {
+        if (consumer.producerId === producerInfo.producerId) return;
+      }
 
       console.log(
         `Consume requested for ${producerInfo.kind} from ${producerInfo.peerName}`
       );
       try {
         const { id, producerId, kind, rtpParameters, producerPeerId } =
-          await socketRequest<{
-            id: string;
-            producerId: string;
-            kind: "audio" | "video";
-            rtpParameters: mediasoupTypes.RtpParameters;
-            producerPeerId: string;
-          }>("consume", {
-            roomId,
+          await signaling.request("consume", {
+            roomId: roomIdRef.current,
             transportId: recvTransportRef.current.id,
             producerId: producerInfo.producerId,
             rtpCapabilities: deviceRef.current.rtpCapabilities,
@@ -144,61 +490,71 @@ export function useMediasoup({
           `Consumer created locally: ${consumer.id}, track enabled: ${consumer.track.enabled}`
         );
 
-        consumersRef.current.set(id, { consumer, peerId: producerInfo.peerId });
+        const source = getProducerSource(kind, producerInfo.appData);
+        const trackKey = SOURCE_TRACK_KEYS[source];
+        const stateKey = SOURCE_STATE_KEYS[source];
+
+        consumersRef.current.set(id, {
+          consumer,
+          peerId: producerInfo.peerId,
+          source,
+        });
 
         // Resume the consumer
-        await socketRequest("resumeConsumer", { roomId, consumerId: id });
+        await signaling.request("resumeConsumer", {
+          roomId: roomIdRef.current,
+          consumerId: id,
+        });
         console.log(`Consumer resumed: ${id}`);
 
+        if (source === "camera") {
+          requestPreferredLayers(producerInfo.peerId);
+          syncConsumerVisibility(producerInfo.peerId);
+        }
+
         // Update participant with new track
         setParticipants((prev) => {
           const existing = prev.find((p) => p.id === producerInfo.peerId);
           if (existing) {
             console.log(
-              `Updating existing participant ${producerInfo.peerName} with ${kind} track`
+              `Updating existing participant ${producerInfo.peerName} with ${source} track`
             );
-            return prev.map((p) => {
-              if (p.id === producerInfo.peerId) {
-                return {
-                  ...p,
-                  [kind === "video" ? "videoTrack" : "audioTrack"]:
-                    consumer.track,
-                  [kind === "video" ? "isVideoOff" : "isMuted"]: false,
-                };
-              }
-              return p;
-            });
           } else {
             console.log(
-              `Adding new participant ${producerInfo.peerName} with ${kind} track`
+              `Adding new participant ${producerInfo.peerName} with ${source} track`
             );
-            return [
-              ...prev,
-              {
-                id: producerInfo.peerId,
-                name: producerInfo.peerName,
-                videoTrack: kind === "video" ? consumer.track : null,
-                audioTrack: kind === "audio" ? consumer.track : null,
-                isMuted: kind !== "audio",
-                isVideoOff: kind !== "video",
-              },
-            ];
           }
+
+          const participant = {
+            ...(existing ??
+              createRemoteParticipant(
+                producerInfo.peerId,
+                producerInfo.peerName
+              )),
+            [trackKey]: consumer.track,
+            ...(stateKey && { [stateKey]: false }),
+          };
+
+          return existing
+            ? prev.map((p) => (p.id === producerInfo.peerId ? participant : p))
+            : [...prev, participant];
         });
 
-        console.log(`✅ Consuming ${kind} from ${producerInfo.peerName}`);
+        console.log(`✅ Consuming ${source} from ${producerInfo.peerName}`);
       } catch (err) {
         console.error("Error consuming producer:", err);
       }
     },
-    [socket, socketRequest, roomId]
+    [signaling, requestPreferredLayers, syncConsumerVisibility]
   );
 
   // Effect 1: Connect Socket
   useEffect(() => {
     if (!enabled || !url) return;
 
-    const newSocket = io(url);
+    const newSocket = io(url, {
+      reconnectionAttempts: SOCKET_RECONNECT_ATTEMPTS,
+    });
     setSocket(newSocket);
 
     return () => {
@@ -208,209 +564,517 @@ export function useMediasoup({
 
   // Effect 2: Mediasoup Logic (runs when socket is connected)
   useEffect(() => {
-    if (!socket || !roomId || !userName || isConnectedRef.current) return;
+    // The messenger only exists once there is a room and a name
+    if (!signaling || !messenger || isConnectedRef.current) return;
 
+    const { socket } = signaling;
+    // Every session starts out in the main room
+    roomIdRef.current = roomId;
+    messenger.setRoomId(roomId);
     let mounted = true;
+    let hasJoined = false;
+    let isRejoining = false;
+    // Rejoining on purpose, into a breakout or back out of one
+    let isMoving = false;
+    // The rejoin under way, which a move waits out
+    let currentRejoin: Promise<void> | null = null;
+    let rejoinRetryTimer: ReturnType<typeof setTimeout> | null = null;
+    // Moves run one after another
+    let moveQueue: Promise<void> = Promise.resolve();
+    // The room the server may still hold us in, left before rejoining
+    let joinedRoomId = roomId;
+    // Removed by the host, or never let in
+    let isTurnedAway = false;
+    // Lets us back in after a reconnect without waiting again
+    let admissionTicket: string | undefined;
+    // Settles the wait outside; null means knock again on a new socket
+    let resolveAdmission:
+      | ((decision: ServerEvents["admission"] | null) => void)
+      | null = null;
+    // Whether the server negotiated SCTP on our transports
+    let hasDataChannels = false;
+    // Local producers to bring back, kept across failed rejoin attempts
+    let producersToRestore: {
+      key: string;
+      track: MediaStreamTrack | null;
+      paused: boolean;
+      source: ProducerSource;
+    }[] = [];
+    const degradedTransports = new Set<string>();
+    const iceRestartAttempts = new Map<string, number>();
+    const iceRestartTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+    const refreshReconnecting = () => {
+      setIsReconnecting(
+        !isTurnedAway &&
+          ((isRejoining && !isMoving) ||
+            !socket.connected ||
+            degradedTransports.size > 0)
+      );
+    };
 
-    const connect = async () => {
-      setIsConnecting(true);
-      setError(null);
+    const clearIceRestartTimers = () => {
+      for (const timer of iceRestartTimers.values()) clearTimeout(timer);
+      iceRestartTimers.clear();
+    };
 
-      try {
-        // Wait for socket connection if not already connected
-        if (!socket.connected) {
-          await new Promise<void>((resolve, reject) => {
-            socket.on("connect", resolve);
-            socket.on("connect_error", reject);
-          });
-        }
+    const restartIce = async (transport: mediasoupTypes.Transport) => {
+      iceRestartTimers.delete(transport.id);
+      // A socket reconnect rebuilds everything anyway
+      if (transport.closed || !socket.connected || isRejoining) return;
 
-        if (!mounted) return;
+      const attempts = (iceRestartAttempts.get(transport.id) ?? 0) + 1;
+      iceRestartAttempts.set(transport.id, attempts);
 
-        // Get router capabilities
-        const { rtpCapabilities } = await new Promise<{
-          rtpCapabilities: mediasoupTypes.RtpCapabilities;
-        }>((resolve, reject) => {
-          socket.emit("getRouterRtpCapabilities", { roomId }, (res: any) => {
-            if (res.error) reject(new Error(res.error));
-            else resolve(res);
-          });
-        });
+      if (attempts > MAX_ICE_RESTARTS) {
+        console.log(
+          `ICE restarts exhausted for ${transport.direction} transport, rejoining`
+        );
+        rejoin();
+        return;
+      }
 
-        // Create device
-        const device = new Device();
-        await device.load({ routerRtpCapabilities: rtpCapabilities });
-        deviceRef.current = device;
-
-        // Join room
-        const { peers, existingProducers } = await new Promise<{
-          peers: { id: string; name: string }[];
-          existingProducers: ProducerInfo[];
-        }>((resolve, reject) => {
-          socket.emit("joinRoom", { roomId, userName }, (res: any) => {
-            if (res.error) reject(new Error(res.error));
-            else resolve(res);
-          });
+      try {
+        console.log(
+          `Restarting ICE on ${transport.direction} transport (attempt ${attempts})`
+        );
+        const { iceParameters } = await signaling.request("restartIce", {
+          roomId: roomIdRef.current,
+          transportId: transport.id,
         });
+        await transport.restartIce({ iceParameters });
+      } catch (err) {
+        console.error("ICE restart failed:", err);
+        iceRestartTimers.set(
+          transport.id,
+          setTimeout(() => restartIce(transport), ICE_RESTART_DELAY_MS)
+        );
+      }
+    };
 
-        if (!mounted) return;
+    const handleTransportState = (
+      transport: mediasoupTypes.Transport,
+      state: mediasoupTypes.ConnectionState
+    ) => {
+      console.log(
+        `${transport.direction} transport connection state: ${state}`
+      );
 
-        // Initialize participants from existing peers
-        setParticipants(
-          peers.map((p) => ({
-            id: p.id,
-            name: p.name,
-            videoTrack: null,
-            audioTrack: null,
-            isMuted: true,
-            isVideoOff: true,
-          }))
+      if (state === "connected") {
+        degradedTransports.delete(transport.id);
+        iceRestartAttempts.delete(transport.id);
+        clearTimeout(iceRestartTimers.get(transport.id));
+        iceRestartTimers.delete(transport.id);
+      } else if (state === "disconnected" || state === "failed") {
+        degradedTransports.add(transport.id);
+        clearTimeout(iceRestartTimers.get(transport.id));
+        // "disconnected" often recovers by itself, "failed" never does
+        iceRestartTimers.set(
+          transport.id,
+          setTimeout(
+            () => restartIce(transport),
+            state === "failed" ? 0 : ICE_RESTART_DELAY_MS
+          )
         );
+      }
 
-        // Create send transport
-        const sendTransportParams = await new Promise<{
-          id: string;
-          iceParameters: mediasoupTypes.IceParameters;
-          iceCandidates: mediasoupTypes.IceCandidate[];
-          dtlsParameters: mediasoupTypes.DtlsParameters;
-        }>((resolve, reject) => {
-          socket.emit(
-            "createWebRtcTransport",
-            { roomId, direction: "send" },
-            (res: any) => {
-              if (res.error) reject(new Error(res.error));
-              else resolve(res);
-            }
-          );
-        });
+      refreshReconnecting();
+    };
+
+    const stopLocalMedia = () => {
+      localStreamRef.current?.getTracks().forEach((t) => t.stop());
+      backgroundProcessorRef.current?.stop();
+      backgroundProcessorRef.current = null;
+      screenStreamRef.current?.getTracks().forEach((t) => t.stop());
+      screenStreamRef.current = null;
+    };
+
+    // Room events fall back to the socket until a new channel opens
+    const closeDataChannels = () => {
+      dataProducerRef.current?.close();
+      dataProducerRef.current = null;
+      messenger.setChannel(null);
+      for (const { dataConsumer } of dataConsumersRef.current.values()) {
+        dataConsumer.close();
+      }
+      dataConsumersRef.current.clear();
+    };
 
-        const sendTransport = device.createSendTransport(sendTransportParams);
-        sendTransportRef.current = sendTransport;
+    // Tear down transports without touching the local tracks
+    const closeTransports = () => {
+      clearIceRestartTimers();
+      degradedTransports.clear();
+      iceRestartAttempts.clear();
 
-        sendTransport.on("connectionstatechange", (state) => {
-          console.log(`Send transport connection state: ${state}`);
+      for (const producer of producersRef.current.values()) {
+        producer.close();
+      }
+      producersRef.current.clear();
+
+      for (const { consumer } of consumersRef.current.values()) {
+        consumer.close();
+      }
+      consumersRef.current.clear();
+      closeDataChannels();
+
+      sendTransportRef.current?.close();
+      recvTransportRef.current?.close();
+      failedDecryptionsRef.current.clear();
+      setDecryptionFailedIds([]);
+      sendTransportRef.current = null;
+      recvTransportRef.current = null;
+    };
+
+    // Ask to come in, and wait for the host if the room has a waiting room
+    const knock = async () => {
+      let decision: ServerEvents["admission"] | null = null;
+
+      while (!decision) {
+        const { status, ticket } = await signaling.request("knock", {
+          ...credentials,
+          roomId: roomIdRef.current,
+          userName,
+          hostKey: getHostKey(roomId),
+          ticket: admissionTicket,
         });
+        if (status === "admitted") {
+          decision = { admitted: true, ticket };
+          continue;
+        }
 
-        sendTransport.on(
-          "connect",
-          async ({ dtlsParameters }, callback, errback) => {
-            try {
-              await new Promise<void>((resolve, reject) => {
-                socket.emit(
-                  "connectTransport",
-                  {
-                    roomId,
-                    transportId: sendTransport.id,
-                    dtlsParameters,
-                  },
-                  (res: any) => {
-                    if (res.error) reject(new Error(res.error));
-                    else resolve();
-                  }
-                );
-              });
-              callback();
-            } catch (error) {
-              errback(error as Error);
-            }
+        console.log("Waiting for the host to let us in");
+        setAdmission("waiting");
+        decision = await new Promise<ServerEvents["admission"] | null>(
+          (resolve) => {
+            resolveAdmission = resolve;
           }
         );
+        resolveAdmission = null;
+      }
+
+      admissionTicket = decision.ticket ?? admissionTicket;
+      if (mounted) setAdmission(decision.admitted ? "admitted" : "denied");
+      return decision.admitted;
+    };
+
+    // Load the device, join the room and create both transports
+    const joinRoom = async () => {
+      if (!(await knock())) {
+        console.log("The host didn't let us in");
+        isTurnedAway = true;
+        socket.disconnect();
+        return null;
+      }
+      if (!mounted) return null;
+
+      // Get router capabilities
+      const { rtpCapabilities } = await signaling.request(
+        "getRouterRtpCapabilities",
+        { roomId: roomIdRef.current }
+      );
+
+      // Create device (a restarted server may have a different router)
+      const device = new Device();
+      await device.load({ routerRtpCapabilities: rtpCapabilities });
+      deviceRef.current = device;
+
+      // Join room
+      const {
+        peers,
+        existingProducers,
+        existingDataProducers,
+        hostId,
+        isLocked,
+        hasWaitingRoom,
+        hasPassword,
+        raisedHands,
+        breakouts,
+        spotlight,
+      } = await signaling.request("joinRoom", {
+        roomId: roomIdRef.current,
+        userName,
+        hostKey: getHostKey(roomId),
+      });
+
+      if (!mounted) return null;
+
+      setHostId(hostId);
+      setIsRoomLocked(isLocked);
+      setHasWaitingRoom(hasWaitingRoom);
+      setHasPassword(hasPassword);
+      setRaisedHands(raisedHands);
+      setBreakouts(breakouts);
+      setSpotlightIds(spotlight);
 
-        sendTransport.on(
-          "produce",
-          async (
-            {
+      // Initialize participants from existing peers
+      setParticipants(
+        peers.map((p) => createRemoteParticipant(p.id, p.name, p.joinedAt))
+      );
+
+      // Create send transport
+      const sendTransportParams = await signaling.request(
+        "createWebRtcTransport",
+        {
+          roomId: roomIdRef.current,
+          direction: "send",
+          sctpCapabilities: device.sctpCapabilities,
+        }
+      );
+
+      const e2ee = e2eeRef.current;
+      const sendTransport = device.createSendTransport({
+        ...sendTransportParams,
+        additionalSettings: e2ee?.transportSettings,
+      });
+      sendTransportRef.current = sendTransport;
+
+      if (e2ee) {
+        sendTransport.observer.on("newproducer", (producer) => {
+          e2ee.encrypt(producer.rtpSender!, producer.id);
+        });
+      }
+
+      sendTransport.on("connectionstatechange", (state) => {
+        handleTransportState(sendTransport, state);
+      });
+
+      sendTransport.on(
+        "connect",
+        async ({ dtlsParameters }, callback, errback) => {
+          try {
+            await signaling.request("connectTransport", {
+              roomId: roomIdRef.current,
+              transportId: sendTransport.id,
+              dtlsParameters,
+            });
+            callback();
+          } catch (error) {
+            errback(error as Error);
+          }
+        }
+      );
+
+      sendTransport.on(
+        "produce",
+        async ({ kind, rtpParameters, appData }, callback, errback) => {
+          try {
+            const { id } = await signaling.request("produce", {
+              roomId: roomIdRef.current,
+              transportId: sendTransport.id,
               kind,
               rtpParameters,
               appData,
-            }: {
-              kind: mediasoupTypes.MediaKind;
-              rtpParameters: mediasoupTypes.RtpParameters;
-              appData: any;
-            },
-            callback: (data: { id: string }) => void,
-            errback: (error: any) => void
-          ) => {
-            try {
-              const { id } = await new Promise<{ id: string }>(
-                (resolve, reject) => {
-                  socket.emit(
-                    "produce",
-                    {
-                      roomId,
-                      transportId: sendTransport.id,
-                      kind,
-                      rtpParameters,
-                      appData,
-                    },
-                    (res: any) => {
-                      if (res.error) reject(new Error(res.error));
-                      else resolve(res);
-                    }
-                  );
-                }
-              );
-              callback({ id });
-            } catch (error) {
-              errback(error as Error);
-            }
+            });
+            callback({ id });
+          } catch (error) {
+            errback(error as Error);
           }
-        );
+        }
+      );
 
-        // Create receive transport
-        const recvTransportParams = await new Promise<{
-          id: string;
-          iceParameters: mediasoupTypes.IceParameters;
-          iceCandidates: mediasoupTypes.IceCandidate[];
-          dtlsParameters: mediasoupTypes.DtlsParameters;
-        }>((resolve, reject) => {
-          socket.emit(
-            "createWebRtcTransport",
-            { roomId, direction: "recv" },
-            (res: any) => {
-              if (res.error) reject(new Error(res.error));
-              else resolve(res);
-            }
-          );
+      sendTransport.on(
+        "producedata",
+        async (
+          { sctpStreamParameters, label, protocol, appData },
+          callback,
+          errback
+        ) => {
+          try {
+            const { id } = await signaling.request("produceData", {
+              roomId: roomIdRef.current,
+              transportId: sendTransport.id,
+              sctpStreamParameters,
+              label,
+              protocol,
+              appData,
+            });
+            callback({ id });
+          } catch (error) {
+            errback(error as Error);
+          }
+        }
+      );
+
+      // Create receive transport
+      const recvTransportParams = await signaling.request(
+        "createWebRtcTransport",
+        {
+          roomId: roomIdRef.current,
+          direction: "recv",
+          sctpCapabilities: device.sctpCapabilities,
+        }
+      );
+      hasDataChannels =
+        !!sendTransportParams.sctpParameters &&
+        !!recvTransportParams.sctpParameters;
+
+      const recvTransport = device.createRecvTransport({
+        ...recvTransportParams,
+        additionalSettings: e2ee?.transportSettings,
+      });
+      recvTransportRef.current = recvTransport;
+
+      if (e2ee) {
+        recvTransport.observer.on("newconsumer", (consumer) => {
+          e2ee.decrypt(consumer.rtpReceiver!, consumer.id);
         });
+      }
 
-        const recvTransport = device.createRecvTransport(recvTransportParams);
-        recvTransportRef.current = recvTransport;
+      recvTransport.on("connectionstatechange", (state) => {
+        handleTransportState(recvTransport, state);
+      });
 
-        recvTransport.on("connectionstatechange", (state) => {
-          console.log(`Recv transport connection state: ${state}`);
+      recvTransport.on(
+        "connect",
+        async ({ dtlsParameters }, callback, errback) => {
+          try {
+            await signaling.request("connectTransport", {
+              roomId: roomIdRef.current,
+              transportId: recvTransport.id,
+              dtlsParameters,
+            });
+            callback();
+          } catch (error) {
+            errback(error as Error);
+          }
+        }
+      );
+
+      return {
+        existingProducers,
+        existingDataProducers: existingDataProducers ?? [],
+      };
+    };
+
+    // Our channel for room events; without it they keep using the socket
+    const produceRoomEvents = async () => {
+      const sendTransport = sendTransportRef.current;
+      if (!hasDataChannels || !sendTransport) return;
+
+      try {
+        const dataProducer = await sendTransport.produceData({
+          ordered: true,
+          label: ROOM_EVENTS_LABEL,
         });
+        dataProducerRef.current = dataProducer;
+        messenger.setChannel(dataProducer);
+      } catch (err) {
+        console.error("Error producing room events, using socket:", err);
+      }
+    };
+
+    const consumeDataProducer = async ({
+      dataProducerId,
+      peerId,
+    }: DataProducerInfo) => {
+      const recvTransport = recvTransportRef.current;
+      if (!hasDataChannels || !recvTransport) return;
+
+      let dataConsumerId: string | null = null;
+      try {
+        const params = await signaling.request("consumeData", {
+          roomId: roomIdRef.current,
+          transportId: recvTransport.id,
+          dataProducerId,
+        });
+        dataConsumerId = params.id;
+        const dataConsumer = await recvTransport.consumeData(params);
+        dataConsumer.on("message", (data) => messenger.receive(peerId, data));
+        dataConsumersRef.current.set(dataConsumer.id, { dataConsumer, peerId });
+      } catch (err) {
+        console.error("Error consuming room events, using socket:", err);
+        // Until the server drops it, it counts us as reading the channel
+        if (dataConsumerId) {
+          signaling
+            .request("closeDataConsumer", {
+              roomId: roomIdRef.current,
+              dataConsumerId,
+            })
+            .catch((error) =>
+              console.error("Error closing data consumer:", error)
+            );
+        }
+      }
+    };
+
+    // Consume whatever was already in the room plus anything that arrived
+    // while the transports were being set up
+    const consumeAll = async ({
+      existingProducers,
+      existingDataProducers,
+    }: {
+      existingProducers: ProducerInfo[];
+      existingDataProducers: DataProducerInfo[];
+    }) => {
+      const dataProducers = [
+        ...existingDataProducers,
+        ...pendingDataProducersRef.current,
+      ];
+      pendingDataProducersRef.current = [];
+      for (const dataProducer of dataProducers) {
+        await consumeDataProducer(dataProducer);
+      }
+
+      for (const producer of existingProducers) {
+        await consumeProducer(producer);
+      }
+
+      if (pendingProducersRef.current.length > 0) {
+        console.log(
+          `Processing ${pendingProducersRef.current.length} queued producers`
+        );
+        const pending = pendingProducersRef.current;
+        pendingProducersRef.current = [];
+        for (const producer of pending) {
+          await consumeProducer(producer);
+        }
+      }
+    };
+
+    const connect = async () => {
+      setIsConnecting(true);
+      setError(null);
+
+      try {
+        // Wait for socket connection if not already connected
+        if (!socket.connected) {
+          await new Promise<void>((resolve, reject) => {
+            socket.once("connect", () => resolve());
+            socket.once("connect_error", reject);
+          });
+        }
+
+        if (!mounted) return;
 
-        recvTransport.on(
-          "connect",
-          async ({ dtlsParameters }, callback, errback) => {
-            try {
-              await new Promise<void>((resolve, reject) => {
-                socket.emit(
-                  "connectTransport",
-                  {
-                    roomId,
-                    transportId: recvTransport.id,
-                    dtlsParameters,
-                  },
-                  (res: any) => {
-                    if (res.error) reject(new Error(res.error));
-                    else resolve();
-                  }
-                );
-              });
-              callback();
-            } catch (error) {
-              errback(error as Error);
+        // Must exist before the transports, which it configures. Joining
+        // unencrypted instead would silently expose the call.
+        if (e2eePassphrase && !e2eeRef.current) {
+          const e2ee = await createE2EESession(
+            e2eePassphrase,
+            roomId,
+            (consumerId, ok) => {
+              const peerId = consumersRef.current.get(consumerId)?.peerId;
+              if (peerId) setConsumerDecrypting(consumerId, ok ? null : peerId);
             }
+          );
+          if (!mounted) {
+            e2ee.stop();
+            return;
           }
-        );
+          e2eeRef.current = e2ee;
+        }
+
+        const existing = await joinRoom();
+        const sendTransport = sendTransportRef.current;
+        if (!existing || !sendTransport) return;
+        await produceRoomEvents();
 
         // Get local media
         const constraints: MediaStreamConstraints = {
-          audio: initialDevices?.audioInput
-            ? { deviceId: initialDevices.audioInput }
-            : true,
+          audio: getAudioConstraints(
+            initialDevices?.audioInput,
+            audioSettingsRef.current
+          ),
           video: initialDevices?.videoInput
             ? { deviceId: initialDevices.videoInput }
             : true,
@@ -422,12 +1086,16 @@ export function useMediasoup({
         localStreamRef.current = localStream;
 
         const audioTrack = localStream.getAudioTracks()[0];
-        const videoTrack = localStream.getVideoTracks()[0];
+        const cameraTrack = localStream.getVideoTracks()[0];
+        const videoTrack = cameraTrack
+          ? await processCameraTrack(cameraTrack)
+          : cameraTrack;
 
         // Produce audio
         if (audioTrack && !initialMuted) {
           const audioProducer = await sendTransport.produce({
             track: audioTrack,
+            ...getProduceOptions("mic", audioSettingsRef.current),
           });
           producersRef.current.set("audio", audioProducer);
         } else if (audioTrack) {
@@ -438,10 +1106,11 @@ export function useMediasoup({
         if (videoTrack && !initialVideoOff) {
           const videoProducer = await sendTransport.produce({
             track: videoTrack,
+            ...getProduceOptions("camera"),
           });
           producersRef.current.set("video", videoProducer);
-        } else if (videoTrack) {
-          videoTrack.enabled = false;
+        } else if (cameraTrack) {
+          cameraTrack.enabled = false;
         }
 
         setLocalParticipant({
@@ -451,189 +1120,392 @@ export function useMediasoup({
           isCameraEnabled: !initialVideoOff,
           videoTrack,
           audioTrack,
+          screenTrack: null,
+          screenAudioTrack: null,
           isMuted: initialMuted,
           isVideoOff: initialVideoOff,
+          joinedAt: Date.now(),
         });
 
         setIsMuted(initialMuted);
         setIsVideoOff(initialVideoOff);
         isConnectedRef.current = true;
+        hasJoined = true;
         setIsConnecting(false);
 
-        console.log("✅ Connected to room:", roomId);
+        console.log("✅ Connected to room:", roomIdRef.current);
 
-        // Consume existing producers
-        for (const producer of existingProducers) {
-          await consumeProducer(producer);
-        }
-
-        // Process any queued producers
-        if (pendingProducersRef.current.length > 0) {
-          console.log(
-            `Processing ${pendingProducersRef.current.length} queued producers`
-          );
-          for (const producer of pendingProducersRef.current) {
-            await consumeProducer(producer);
-          }
-          pendingProducersRef.current = [];
-        }
+        await consumeAll(existing);
       } catch (err) {
         console.error("Connection error:", err);
-        setError(err as Error);
+        setError(
+          isRoomLockedError(err)
+            ? new Error("This baithak is locked. Ask the host to unlock it.")
+            : isAccessDeniedError(err)
+            ? new Error(
+                "Your invite link or the room password is no longer valid."
+              )
+            : (err as Error)
+        );
         setIsConnecting(false);
       }
     };
 
-    connect();
+    // Rebuild the whole session on fresh transports, keeping the local
+    // tracks alive and re-producing them in their current paused state
+    const runRejoin = async () => {
+      if (!mounted || !hasJoined || isRejoining) return;
 
-    // Socket event handlers
-    socket.on("newPeer", ({ peerId, peerName }) => {
-      setParticipants((prev) => {
-        if (prev.find((p) => p.id === peerId)) return prev;
-        return [
-          ...prev,
-          {
-            id: peerId,
-            name: peerName,
-            videoTrack: null,
-            audioTrack: null,
-            isMuted: true,
-            isVideoOff: true,
-          },
-        ];
-      });
-    });
+      isRejoining = true;
+      refreshReconnecting();
+      if (rejoinRetryTimer) {
+        clearTimeout(rejoinRetryTimer);
+        rejoinRetryTimer = null;
+      }
 
-    socket.on("newProducer", async (producerInfo: ProducerInfo) => {
-      // If transport isn't ready yet, queue the producer
-      if (!recvTransportRef.current || !deviceRef.current) {
-        console.log(
-          `Queueing producer ${producerInfo.producerId} (transport not ready)`
+      if (producersRef.current.size > 0) {
+        producersToRestore = [...producersRef.current.entries()].map(
+          ([key, producer]) => ({
+            key,
+            track: producer.track,
+            paused: producer.paused,
+            source: getProducerSource(producer.kind, producer.appData),
+          })
         );
-        pendingProducersRef.current.push(producerInfo);
-        return;
       }
-      await consumeProducer(producerInfo);
-    });
+      closeTransports();
 
-    socket.on("peerLeft", ({ peerId }) => {
-      setParticipants((prev) => prev.filter((p) => p.id !== peerId));
+      try {
+        // The server still holds our old peer if only the media path broke,
+        // and after a move that peer is in the room we came from
+        signaling.emit("leaveRoom", { roomId: joinedRoomId });
+        joinedRoomId = roomIdRef.current;
+
+        const existing = await joinRoom();
+        if (!existing) {
+          // Unmounted, or the host didn't let us back in. The admission
+          // state tells the page, so there's nothing left to rebuild.
+          isRejoining = false;
+          if (isTurnedAway) stopLocalMedia();
+          refreshReconnecting();
+          return;
+        }
+        const sendTransport = sendTransportRef.current;
+        if (!sendTransport) throw new Error("No send transport after joining");
+        await produceRoomEvents();
+
+        for (const { key, track, paused, source } of producersToRestore) {
+          if (!track || track.readyState === "ended") continue;
+          const producer = await sendTransport.produce({
+            track,
+            ...getProduceOptions(source, audioSettingsRef.current),
+          });
+          if (paused) {
+            producer.pause();
+            signaling
+              .request("pauseProducer", {
+                roomId: roomIdRef.current,
+                producerId: producer.id,
+              })
+              .catch((err) => console.error("Error pausing producer:", err));
+          }
+          producersRef.current.set(key, producer);
+        }
+        producersToRestore = [];
+
+        // Our peer id follows the new socket id
+        setLocalParticipant((prev) =>
+          prev ? { ...prev, id: socket.id! } : null
+        );
+        isConnectedRef.current = true;
+        isRejoining = false;
+        refreshReconnecting();
 
-      // Close consumers for this peer
-      for (const [consumerId, { peerId: cPeerId }] of consumersRef.current) {
-        if (cPeerId === peerId) {
-          consumersRef.current.delete(consumerId);
+        console.log("✅ Rejoined room:", roomIdRef.current);
+
+        await consumeAll(existing);
+      } catch (err) {
+        console.error("Rejoin failed, retrying:", err);
+        isRejoining = false;
+        // Half-built transports are torn down by the next attempt
+        if (socket.connected) {
+          rejoinRetryTimer = setTimeout(rejoin, REJOIN_RETRY_DELAY_MS);
         }
       }
-    });
+    };
 
-    socket.on("consumerClosed", ({ consumerId }) => {
-      const entry = consumersRef.current.get(consumerId);
-      if (entry) {
-        entry.consumer.close();
-        consumersRef.current.delete(consumerId);
-
-        // Update participant
-        setParticipants((prev) =>
-          prev.map((p) => {
-            if (p.id === entry.peerId) {
-              // Track kind based on what's null
-              const kind = entry.consumer.kind;
-              return {
-                ...p,
-                [kind === "video" ? "videoTrack" : "audioTrack"]: null,
-                [kind === "video" ? "isVideoOff" : "isMuted"]: true,
-              };
-            }
-            return p;
-          })
-        );
+    const rejoin = () => {
+      currentRejoin ??= runRejoin().finally(() => {
+        currentRejoin = null;
+      });
+      return currentRejoin;
+    };
+
+    // Same socket and local tracks, different room
+    const runMove = async (nextRoomId: string) => {
+      // A reconnect under way finishes in the room it started in first
+      await currentRejoin;
+      if (!hasJoined || nextRoomId === roomIdRef.current) return;
+
+      console.log(`Moving from ${roomIdRef.current} to ${nextRoomId}`);
+      roomIdRef.current = nextRoomId;
+      messenger.setRoomId(nextRoomId);
+      pendingProducersRef.current = [];
+      pendingDataProducersRef.current = [];
+      setParticipants([]);
+      setRaisedHands([]);
+      setSpotlightIds([]);
+
+      isMoving = true;
+      try {
+        await rejoin();
+      } finally {
+        isMoving = false;
       }
-    });
+    };
 
-    socket.on("producerPaused", ({ producerId, peerId }) => {
-      setParticipants((prev) =>
-        prev.map((p) => {
-          if (p.id === peerId) {
-            // Check if this producer correlates to video or audio
-            // We need to look up the consumer for this producer to know the kind
-            // But we don't have direct mapping here easily without iterating consumersRef
-            // OR we can guess/search.
-            // Better approach: Server sends 'kind' or we search consumers.
-
-            let kind = null;
-            for (const {
-              consumer,
-              peerId: cPeerId,
-            } of consumersRef.current.values()) {
-              if (cPeerId === peerId && consumer.producerId === producerId) {
-                kind = consumer.kind;
-                break;
-              }
-            }
+    const moveToRoom = (nextRoomId: string) => {
+      const move = moveQueue.then(() => runMove(nextRoomId));
+      moveQueue = move.catch(() => {});
+      return move;
+    };
+
+    connect();
+
+    // Drop a consumer and clear the participant fields it was feeding
+    const removeConsumer = (consumerId: string) => {
+      const entry = consumersRef.current.get(consumerId);
+      if (!entry) return;
 
-            if (kind) {
-              return {
+      entry.consumer.close();
+      consumersRef.current.delete(consumerId);
+      requestedLayersRef.current.delete(consumerId);
+      setConsumerDecrypting(consumerId, null);
+
+      const stateKey = SOURCE_STATE_KEYS[entry.source];
+      setParticipants((prev) =>
+        prev.map((p) =>
+          p.id === entry.peerId
+            ? {
                 ...p,
-                [kind === "video" ? "isVideoOff" : "isMuted"]: true,
-              };
-            }
-          }
-          return p;
-        })
+                [SOURCE_TRACK_KEYS[entry.source]]: null,
+                ...(stateKey && { [stateKey]: true }),
+              }
+            : p
+        )
       );
-    });
+    };
+
+    // Flip the mute/camera-off flag behind a remote producer
+    const setProducerPaused = (
+      producerId: string,
+      peerId: string,
+      paused: boolean
+    ) => {
+      let source: ProducerSource | null = null;
+      for (const entry of consumersRef.current.values()) {
+        if (
+          entry.peerId === peerId &&
+          entry.consumer.producerId === producerId
+        ) {
+          source = entry.source;
+          break;
+        }
+      }
+
+      // Screen shares have no paused state of their own
+      const stateKey = source && SOURCE_STATE_KEYS[source];
+      if (!stateKey) return;
 
-    socket.on("producerResumed", ({ producerId, peerId }) => {
       setParticipants((prev) =>
-        prev.map((p) => {
-          if (p.id === peerId) {
-            let kind = null;
-            for (const {
-              consumer,
-              peerId: cPeerId,
-            } of consumersRef.current.values()) {
-              if (cPeerId === peerId && consumer.producerId === producerId) {
-                kind = consumer.kind;
-                break;
-              }
-            }
+        prev.map((p) => (p.id === peerId ? { ...p, [stateKey]: paused } : p))
+      );
+    };
 
-            if (kind) {
-              return {
-                ...p,
-                [kind === "video" ? "isVideoOff" : "isMuted"]: false,
-              };
-            }
+    // Server event handlers
+    const unsubscribers = [
+      signaling.on("newPeer", ({ peerId, peerName, joinedAt }) => {
+        setParticipants((prev) => {
+          if (prev.find((p) => p.id === peerId)) return prev;
+          return [...prev, createRemoteParticipant(peerId, peerName, joinedAt)];
+        });
+      }),
+
+      signaling.on("newProducer", async (producerInfo) => {
+        // If transport isn't ready yet, queue the producer
+        if (!recvTransportRef.current || !deviceRef.current) {
+          console.log(
+            `Queueing producer ${producerInfo.producerId} (transport not ready)`
+          );
+          pendingProducersRef.current.push(producerInfo);
+          return;
+        }
+        await consumeProducer(producerInfo);
+      }),
+
+      signaling.on("newDataProducer", async (dataProducerInfo) => {
+        if (!recvTransportRef.current) {
+          pendingDataProducersRef.current.push(dataProducerInfo);
+          return;
+        }
+        await consumeDataProducer(dataProducerInfo);
+      }),
+
+      signaling.on("peerLeft", ({ peerId }) => {
+        setParticipants((prev) => prev.filter((p) => p.id !== peerId));
+        visibleTilesRef.current.delete(peerId);
+        detachedPeersRef.current.delete(peerId);
+
+        // Close consumers for this peer
+        for (const [consumerId, { peerId: cPeerId }] of consumersRef.current) {
+          if (cPeerId === peerId) {
+            consumersRef.current.delete(consumerId);
+            setConsumerDecrypting(consumerId, null);
           }
-          return p;
-        })
-      );
-    });
+        }
+        for (const [id, entry] of dataConsumersRef.current) {
+          if (entry.peerId === peerId) {
+            entry.dataConsumer.close();
+            dataConsumersRef.current.delete(id);
+          }
+        }
+      }),
+
+      signaling.on("dataConsumerClosed", ({ dataConsumerId }) => {
+        dataConsumersRef.current.get(dataConsumerId)?.dataConsumer.close();
+        dataConsumersRef.current.delete(dataConsumerId);
+      }),
+
+      signaling.on("hostChanged", ({ hostId }) => {
+        setHostId(hostId);
+        if (hostId === socket.id) {
+          setHostNotice("madeHost");
+        } else {
+          setWaitingPeers([]);
+        }
+      }),
 
-    socket.on("producerClosed", ({ producerId, peerId }) => {
-      // Find and update the participant
-      setParticipants((prev) =>
-        prev.map((p) => {
-          if (p.id === peerId) {
-            // We need to determine which track was closed
-            // The consumer will emit consumerClosed event
+      signaling.on("roomLockChanged", ({ isLocked }) => {
+        setIsRoomLocked(isLocked);
+      }),
+
+      signaling.on("waitingRoomChanged", ({ enabled }) => {
+        setHasWaitingRoom(enabled);
+      }),
+
+      signaling.on("roomPasswordChanged", ({ hasPassword }) => {
+        setHasPassword(hasPassword);
+      }),
+
+      signaling.on("handsChanged", ({ raisedHands }) => {
+        setRaisedHands(raisedHands);
+      }),
+
+      signaling.on("calledOn", () => {
+        setHostNotice("calledOn");
+      }),
+
+      signaling.on("spotlightChanged", ({ peerIds }) => {
+        setSpotlightIds(peerIds);
+      }),
+
+      signaling.on("breakoutsChanged", (state) => {
+        setBreakouts(state);
+      }),
+
+      signaling.on("breakoutAssigned", ({ roomId: nextRoomId }) => {
+        moveToRoom(nextRoomId).catch((err) =>
+          console.error("Error moving rooms:", err)
+        );
+      }),
+
+      signaling.on("breakoutBroadcast", (broadcast) => {
+        setBreakoutBroadcast(broadcast);
+      }),
+
+      signaling.on("waitingPeersChanged", ({ peers }) => {
+        setWaitingPeers(peers);
+      }),
+
+      signaling.on("admission", (decision) => {
+        resolveAdmission?.(decision);
+      }),
+
+      // Leave quietly so the page can say why, instead of just going home
+      signaling.on("removedFromRoom", ({ reason }) => {
+        console.log(`Removed from room: ${reason}`);
+        isTurnedAway = true;
+        isConnectedRef.current = false;
+        closeTransports();
+        stopLocalMedia();
+        setRemovedReason(reason);
+        socket.disconnect();
+      }),
+
+      signaling.on("consumerClosed", ({ consumerId }) => {
+        removeConsumer(consumerId);
+      }),
+
+      signaling.on("producerPaused", ({ producerId, peerId }) => {
+        setProducerPaused(producerId, peerId, true);
+      }),
+
+      signaling.on("producerResumed", ({ producerId, peerId }) => {
+        setProducerPaused(producerId, peerId, false);
+      }),
+
+      signaling.on("producerClosed", ({ producerId }) => {
+        // Servers that don't send consumerClosed still tell us the producer went away
+        for (const [consumerId, { consumer }] of consumersRef.current) {
+          if (consumer.producerId === producerId) {
+            removeConsumer(consumerId);
           }
-          return p;
-        })
-      );
-    });
+        }
+      }),
+    ];
 
-    socket.on("disconnect", () => {
+    const handleDisconnect = (reason: Socket.DisconnectReason) => {
       isConnectedRef.current = false;
-      if (onDisconnectedRef.current) {
-        onDisconnectedRef.current();
+      if (isTurnedAway) return;
+
+      // Only a deliberate leave (ours or the server's) ends the call
+      if (
+        reason === "io client disconnect" ||
+        reason === "io server disconnect"
+      ) {
+        if (onDisconnectedRef.current) {
+          onDisconnectedRef.current();
+        }
+        return;
       }
-    });
+
+      console.log(`Socket disconnected (${reason}), waiting to reconnect`);
+      refreshReconnecting();
+    };
+    socket.on("disconnect", handleDisconnect);
+
+    // Socket.io reconnects by itself; the room has to be rebuilt after
+    const handleReconnect = () => {
+      refreshReconnecting();
+      // The server forgot our knock along with the old socket
+      if (resolveAdmission) {
+        resolveAdmission(null);
+        return;
+      }
+      rejoin();
+    };
+    socket.on("connect", handleReconnect);
+
+    const handleReconnectFailed = () => {
+      setError(new Error("Lost connection to the server. Check your network."));
+    };
+    socket.io.on("reconnect_failed", handleReconnectFailed);
 
     return () => {
       mounted = false;
       isConnectedRef.current = false;
+      clearIceRestartTimers();
+      if (rejoinRetryTimer) clearTimeout(rejoinRetryTimer);
 
       // Cleanup
       for (const producer of producersRef.current.values()) {
@@ -645,22 +1517,24 @@ export function useMediasoup({
         consumer.close();
       }
       consumersRef.current.clear();
+      closeDataChannels();
 
       sendTransportRef.current?.close();
       recvTransportRef.current?.close();
+      // Kept across rejoins, so new transports are encrypted too
+      e2eeRef.current?.stop();
+      e2eeRef.current = null;
+      failedDecryptionsRef.current.clear();
 
-      localStreamRef.current?.getTracks().forEach((t) => t.stop());
+      stopLocalMedia();
 
       // We don't disconnect socket here, the other effect does it
-      socket.off("newPeer");
-      socket.off("newProducer");
-      socket.off("peerLeft");
-      socket.off("consumerClosed");
-      socket.off("producerClosed");
-      socket.off("disconnect");
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      socket.off("disconnect", handleDisconnect);
+      socket.off("connect", handleReconnect);
+      socket.io.off("reconnect_failed", handleReconnectFailed);
     };
   }, [
-    socket, // Only run when socket is created
     roomId,
     userName,
     initialMuted,
@@ -668,6 +1542,12 @@ export function useMediasoup({
     // initialDevices should be stable or wrapped in memo if constructed in component
     // consumeProducer is stable from useCallback
     consumeProducer,
+    processCameraTrack,
+    signaling,
+    messenger,
+    e2eePassphrase,
+    credentials,
+    setConsumerDecrypting,
   ]);
 
   const toggleMute = useCallback(async () => {
@@ -678,15 +1558,17 @@ export function useMediasoup({
       // Unmute
       if (audioProducer) {
         await audioProducer.resume();
-        socket?.emit(
-          "resumeProducer",
-          { roomId, producerId: audioProducer.id },
-          () => {}
-        );
+        signaling
+          ?.request("resumeProducer", {
+            roomId: roomIdRef.current,
+            producerId: audioProducer.id,
+          })
+          .catch((err) => console.error("Error resuming producer:", err));
       } else if (audioTrack && sendTransportRef.current) {
         audioTrack.enabled = true;
         const producer = await sendTransportRef.current.produce({
           track: audioTrack,
+          ...getProduceOptions("mic", audioSettingsRef.current),
         });
         producersRef.current.set("audio", producer);
       }
@@ -698,18 +1580,19 @@ export function useMediasoup({
       // Mute
       if (audioProducer) {
         await audioProducer.pause();
-        socket?.emit(
-          "pauseProducer",
-          { roomId, producerId: audioProducer.id },
-          () => {}
-        );
+        signaling
+          ?.request("pauseProducer", {
+            roomId: roomIdRef.current,
+            producerId: audioProducer.id,
+          })
+          .catch((err) => console.error("Error pausing producer:", err));
       }
       setIsMuted(true);
       setLocalParticipant((prev) =>
         prev ? { ...prev, isMicrophoneEnabled: false, isMuted: true } : null
       );
     }
-  }, [isMuted, socket, roomId]);
+  }, [isMuted, signaling]);
 
   const toggleVideo = useCallback(async () => {
     const videoProducer = producersRef.current.get("video");
@@ -719,15 +1602,17 @@ export function useMediasoup({
       // Turn on video
       if (videoProducer) {
         await videoProducer.resume();
-        socket?.emit(
-          "resumeProducer",
-          { roomId, producerId: videoProducer.id },
-          () => {}
-        );
+        signaling
+          ?.request("resumeProducer", {
+            roomId: roomIdRef.current,
+            producerId: videoProducer.id,
+          })
+          .catch((err) => console.error("Error resuming producer:", err));
       } else if (videoTrack && sendTransportRef.current) {
         videoTrack.enabled = true;
         const producer = await sendTransportRef.current.produce({
-          track: videoTrack,
+          track: backgroundProcessorRef.current?.track ?? videoTrack,
+          ...getProduceOptions("camera"),
         });
         producersRef.current.set("video", producer);
       }
@@ -739,45 +1624,378 @@ export function useMediasoup({
       // Turn off video
       if (videoProducer) {
         await videoProducer.pause();
-        socket?.emit(
-          "pauseProducer",
-          { roomId, producerId: videoProducer.id },
-          () => {}
-        );
+        signaling
+          ?.request("pauseProducer", {
+            roomId: roomIdRef.current,
+            producerId: videoProducer.id,
+          })
+          .catch((err) => console.error("Error pausing producer:", err));
       }
       setIsVideoOff(true);
       setLocalParticipant((prev) =>
         prev ? { ...prev, isCameraEnabled: false, isVideoOff: true } : null
       );
     }
-  }, [isVideoOff, socket, roomId]);
+  }, [isVideoOff, signaling]);
 
-  const disconnect = useCallback(() => {
-    socket?.emit("leaveRoom", { roomId });
-    socket?.disconnect();
-  }, [socket, roomId]);
+  // The host can turn our mic or camera off, but never back on
+  useEffect(() => {
+    if (!signaling) return;
+
+    return signaling.on("mutedByHost", ({ kind }) => {
+      if (kind === "audio") {
+        if (!isMuted) toggleMute();
+        setHostNotice("muted");
+      } else {
+        if (!isVideoOff) toggleVideo();
+        setHostNotice("videoStopped");
+      }
+    });
+  }, [signaling, isMuted, isVideoOff, toggleMute, toggleVideo]);
 
-  const changeAudioInput = async (deviceId: string) => {
+  const isHost = !!hostId && hostId === localParticipant?.id;
+
+  const hostControls = useMemo<HostControls | null>(() => {
+    if (!signaling || !isHost) return null;
+
+    return {
+      muteParticipant: async (peerId) => {
+        await signaling.request("muteParticipant", {
+          roomId: roomIdRef.current,
+          peerId,
+          kind: "audio",
+        });
+      },
+      stopParticipantVideo: async (peerId) => {
+        await signaling.request("muteParticipant", {
+          roomId: roomIdRef.current,
+          peerId,
+          kind: "video",
+        });
+      },
+      removeParticipant: async (peerId) => {
+        await signaling.request("removeParticipant", {
+          roomId: roomIdRef.current,
+          peerId,
+        });
+      },
+      makeHost: async (peerId) => {
+        await signaling.request("transferHost", {
+          roomId: roomIdRef.current,
+          peerId,
+        });
+      },
+      setRoomLocked: async (locked) => {
+        await signaling.request("lockRoom", { roomId, locked });
+      },
+      endForAll: async () => {
+        await signaling.request("endRoom", { roomId });
+      },
+      setWaitingRoom: async (enabled) => {
+        await signaling.request("setWaitingRoom", { roomId, enabled });
+      },
+      admit: async (peerId) => {
+        await signaling.request("admitPeer", { roomId, peerId });
+      },
+      deny: async (peerId) => {
+        await signaling.request("denyPeer", { roomId, peerId });
+      },
+      admitAll: async () => {
+        await signaling.request("admitAll", { roomId });
+      },
+      setPassword: async (password) => {
+        await signaling.request("setRoomPassword", { roomId, password });
+      },
+      createInvite: async ({ expiresIn, maxUses }) => {
+        const { token } = await signaling.request("createInvite", {
+          roomId,
+          expiresIn,
+          maxUses,
+        });
+        return token;
+      },
+      lowerHand: async (peerId) => {
+        await signaling.request("lowerHand", {
+          roomId: roomIdRef.current,
+          peerId,
+        });
+      },
+      callOnNext: async () => {
+        const { peerId } = await signaling.request("callOnNext", {
+          roomId: roomIdRef.current,
+        });
+        return peerId;
+      },
+      setSpotlight: async (peerIds) => {
+        await signaling.request("setSpotlight", {
+          roomId: roomIdRef.current,
+          peerIds,
+        });
+      },
+      openBreakouts: async (rooms, duration) => {
+        await signaling.request("openBreakouts", {
+          roomId,
+          rooms: rooms.map(({ name, participantIds }) => ({
+            name,
+            peerIds: participantIds,
+          })),
+          duration,
+        });
+      },
+      moveToBreakout: async (peerId, breakoutId) => {
+        await signaling.request("moveToBreakout", {
+          roomId,
+          peerId,
+          breakoutId,
+        });
+      },
+      closeBreakouts: async (countdown) => {
+        await signaling.request("closeBreakouts", { roomId, countdown });
+      },
+      broadcastToBreakouts: async (message) => {
+        await signaling.request("broadcastToBreakouts", { roomId, message });
+      },
+    };
+  }, [signaling, roomId, isHost]);
+
+  const isHandRaised =
+    !!localParticipant && raisedHands.includes(localParticipant.id);
+
+  const toggleHand = useCallback(async () => {
+    if (!signaling) return;
+    await signaling.request(isHandRaised ? "lowerHand" : "raiseHand", {
+      roomId: roomIdRef.current,
+    });
+  }, [signaling, isHandRaised]);
+
+  const dismissHostNotice = useCallback(() => setHostNotice(null), []);
+
+  // The server answers with a breakoutAssigned for the main room
+  const returnToMainRoom = useCallback(async () => {
+    await signaling?.request("returnToMain", { roomId });
+  }, [signaling, roomId]);
+
+  const currentBreakout = useMemo(
+    () =>
+      breakouts.rooms.find((room) =>
+        room.peers.some((peer) => peer.id === localParticipant?.id)
+      ) ?? null,
+    [breakouts, localParticipant?.id]
+  );
+
+  const dismissBreakoutBroadcast = useCallback(
+    () => setBreakoutBroadcast(null),
+    []
+  );
+
+  const stopScreenShare = useCallback(() => {
+    for (const key of ["screen", "screenAudio"]) {
+      const producer = producersRef.current.get(key);
+      if (producer) {
+        producer.close();
+        producersRef.current.delete(key);
+        signaling
+          ?.request("closeProducer", {
+            roomId: roomIdRef.current,
+            producerId: producer.id,
+          })
+          .catch((err) => console.error("Error closing producer:", err));
+      }
+    }
+
+    screenStreamRef.current?.getTracks().forEach((t) => t.stop());
+    screenStreamRef.current = null;
+
+    setIsScreenSharing(false);
+    setLocalParticipant((prev) =>
+      prev ? { ...prev, screenTrack: null, screenAudioTrack: null } : null
+    );
+  }, [signaling]);
+
+  const startScreenShare = useCallback(async () => {
+    const sendTransport = sendTransportRef.current;
+    if (!sendTransport || screenStreamRef.current) return;
+
+    let stream: MediaStream;
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: { deviceId: { exact: deviceId } },
+      // Tab audio is only offered by some browsers, so it's optional
+      stream = await navigator.mediaDevices.getDisplayMedia({
+        video: true,
+        audio: true,
       });
-      const newTrack = stream.getAudioTracks()[0];
-      const audioProducer = producersRef.current.get("audio");
+    } catch (error) {
+      // Dismissing the picker rejects too, which isn't worth surfacing
+      console.log("Screen share not started:", error);
+      return;
+    }
 
-      if (audioProducer) {
-        await audioProducer.replaceTrack({ track: newTrack });
+    screenStreamRef.current = stream;
+    const screenTrack = stream.getVideoTracks()[0];
+    const screenAudioTrack = stream.getAudioTracks()[0] ?? null;
+
+    // The browser's own "Stop sharing" button ends the track
+    screenTrack.addEventListener("ended", stopScreenShare);
+
+    try {
+      const screenProducer = await sendTransport.produce({
+        track: screenTrack,
+        ...getProduceOptions("screen"),
+      });
+      producersRef.current.set("screen", screenProducer);
+
+      if (screenAudioTrack) {
+        const screenAudioProducer = await sendTransport.produce({
+          track: screenAudioTrack,
+          ...getProduceOptions("screenAudio"),
+        });
+        producersRef.current.set("screenAudio", screenAudioProducer);
       }
+    } catch (error) {
+      console.error("Error producing screen share:", error);
+      stopScreenShare();
+      return;
+    }
 
-      setLocalParticipant((prev) => {
-        if (!prev) return null;
-        return { ...prev, audioTrack: newTrack };
+    setIsScreenSharing(true);
+    setLocalParticipant((prev) =>
+      prev ? { ...prev, screenTrack, screenAudioTrack } : null
+    );
+  }, [stopScreenShare]);
+
+  // Only unmuted mics are analysed; a paused producer keeps its track live
+  const speakerTracks = useMemo<SpeakerTrack[]>(() => {
+    const tracks: SpeakerTrack[] = participants
+      .filter((p) => p.audioTrack && !p.isMuted)
+      .map((p) => ({ id: p.id, track: p.audioTrack! }));
+    if (localParticipant?.audioTrack && !isMuted) {
+      tracks.push({
+        id: localParticipant.id,
+        track: localParticipant.audioTrack,
       });
+    }
+    return tracks;
+  }, [participants, localParticipant, isMuted]);
+
+  const { activeSpeakerId, speakingIds } = useActiveSpeaker({
+    tracks: speakerTracks,
+    signaling,
+  });
+
+  const isSpeakingWithHandUp =
+    isHandRaised && speakingIds.includes(localParticipant!.id);
+
+  useEffect(() => {
+    if (!signaling || !isSpeakingWithHandUp) return;
+
+    const timer = setTimeout(() => {
+      console.log("Lowering our hand, we've had the floor");
+      signaling
+        .request("lowerHand", { roomId: roomIdRef.current })
+        .catch((err) => console.error("Error lowering hand:", err));
+    }, HAND_AUTO_LOWER_MS);
+    return () => clearTimeout(timer);
+  }, [signaling, isSpeakingWithHandUp]);
+
+  const activeSpeaker = useMemo(() => {
+    if (!activeSpeakerId) return null;
+    if (localParticipant?.id === activeSpeakerId) return localParticipant;
+    return participants.find((p) => p.id === activeSpeakerId) ?? null;
+  }, [activeSpeakerId, localParticipant, participants]);
+
+  const { connectionStats, uplinkWarning } = useConnectionStats({
+    enabled: !!localParticipant && !isReconnecting,
+    localId: localParticipant?.id ?? null,
+    producersRef,
+    consumersRef,
+    sendTransportRef,
+    recvTransportRef,
+  });
+
+  const disconnect = useCallback(() => {
+    signaling?.emit("leaveRoom", { roomId: roomIdRef.current });
+    socket?.disconnect();
+  }, [signaling, socket]);
+
+  // Re-acquire the mic with the current audio settings and swap it into
+  // the producer. Processing can't be changed on a live track, and some
+  // browsers won't open a second one on the same mic with other settings,
+  // so for those changes the old track has to go first.
+  const replaceMicrophone = async (
+    deviceId: ConstrainDOMString | undefined,
+    stopCurrentFirst: boolean
+  ) => {
+    const settings = audioSettingsRef.current;
+    const localStream = localStreamRef.current;
+    const oldTrack = localStream?.getAudioTracks()[0];
+    if (stopCurrentFirst) oldTrack?.stop();
+
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: getAudioConstraints(deviceId, settings),
+    });
+    const newTrack = stream.getAudioTracks()[0];
+    const audioProducer = producersRef.current.get("audio");
+
+    if (audioProducer) {
+      try {
+        await audioProducer.replaceTrack({ track: newTrack });
+        await audioProducer.setRtpEncodingParameters(getMicEncoding(settings));
+      } catch (error) {
+        newTrack.stop();
+        throw error;
+      }
+    }
+
+    // Producers don't own their tracks, so retire the old one here
+    if (localStream && oldTrack) {
+      newTrack.enabled = oldTrack.enabled;
+      localStream.removeTrack(oldTrack);
+      oldTrack.stop();
+    }
+    localStream?.addTrack(newTrack);
+
+    setLocalParticipant((prev) => {
+      if (!prev) return null;
+      return { ...prev, audioTrack: newTrack };
+    });
+  };
+
+  const changeAudioInput = async (deviceId: string) => {
+    try {
+      await replaceMicrophone({ exact: deviceId }, false);
     } catch (error) {
       console.error("Error switching audio input:", error);
     }
   };
 
+  // Rejects when the new settings can't be applied, after the mic is back
+  // on the previous ones
+  const setAudioSettings = async (settings: AudioSettings) => {
+    const previousSettings = audioSettingsRef.current;
+    audioSettingsRef.current = settings;
+    setAudioSettingsState(settings);
+
+    const currentTrack = localStreamRef.current?.getAudioTracks()[0];
+    if (!currentTrack) return;
+
+    const { deviceId } = currentTrack.getSettings();
+    const device = deviceId ? { exact: deviceId } : undefined;
+    try {
+      await replaceMicrophone(device, true);
+    } catch (error) {
+      console.error("Error applying audio settings:", error);
+
+      // The old track is already stopped, so we'd be silently muted
+      audioSettingsRef.current = previousSettings;
+      setAudioSettingsState(previousSettings);
+      try {
+        await replaceMicrophone(device, false);
+      } catch (restoreError) {
+        console.error("Error restoring the microphone:", restoreError);
+      }
+      throw error;
+    }
+  };
+
   const changeVideoInput = async (deviceId: string) => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({
@@ -785,42 +2003,114 @@ export function useMediasoup({
       });
       const newTrack = stream.getVideoTracks()[0];
       const videoProducer = producersRef.current.get("video");
+      const previousProcessor = backgroundProcessorRef.current;
+      const outgoingTrack = await processCameraTrack(newTrack);
 
       if (videoProducer) {
-        await videoProducer.replaceTrack({ track: newTrack });
+        await videoProducer.replaceTrack({ track: outgoingTrack });
       }
+      previousProcessor?.stop();
+
+      // Producers don't own their tracks, so retire the old one here
+      const localStream = localStreamRef.current;
+      const oldTrack = localStream?.getVideoTracks()[0];
+      if (localStream && oldTrack) {
+        newTrack.enabled = oldTrack.enabled;
+        localStream.removeTrack(oldTrack);
+        oldTrack.stop();
+      }
+      localStream?.addTrack(newTrack);
 
       setLocalParticipant((prev) => {
         if (!prev) return null;
-        return { ...prev, videoTrack: newTrack };
+        return { ...prev, videoTrack: outgoingTrack };
       });
     } catch (error) {
       console.error("Error switching video input:", error);
     }
   };
 
-  // Audio output is handled by the browser/OS usually, or setSinkId on elements
-  // We'll just expose a state for it if we want to pass it down,
-  // but for now we haven't implemented setSinkId in VideoTile yet either effectively
-  // effectively. We will skip audioOutput logic for deep integration for now
-  // as it requires passing sinkId to every VideoTile.
-  // Ideally we'd have a context or store for sinkId.
+  const setBackgroundEffect = async (effect: BackgroundEffect) => {
+    const previousProcessor = backgroundProcessorRef.current;
+    backgroundEffectRef.current = effect;
+    setBackgroundEffectState(effect);
+
+    // Switching between effects only changes how frames are drawn
+    if (previousProcessor && effect.type !== "none") {
+      previousProcessor.setEffect(effect);
+      return;
+    }
+
+    const cameraTrack = localStreamRef.current?.getVideoTracks()[0];
+    if (!cameraTrack || (!previousProcessor && effect.type === "none")) return;
+
+    try {
+      // Same kind of track either way, so no renegotiation is needed
+      const outgoingTrack = await processCameraTrack(cameraTrack);
+      await producersRef.current
+        .get("video")
+        ?.replaceTrack({ track: outgoingTrack });
+      previousProcessor?.stop();
+
+      setLocalParticipant((prev) =>
+        prev ? { ...prev, videoTrack: outgoingTrack } : null
+      );
+    } catch (error) {
+      console.error("Error applying background effect:", error);
+    }
+  };
+
+  // Audio output isn't a transport concern: VideoTile routes each remote
+  // <audio> element through MediaSettingsContext
 
   return {
     socket,
+    messenger,
     participants, // Assuming 'participants' should remain, not 'remoteParticipants' based on original return
     localParticipant,
     isConnecting,
     error,
     isMuted,
     isVideoOff,
-    viewMode,
+    isScreenSharing,
+    isEncrypted: !!e2eePassphrase,
+    decryptionFailedIds,
+    admission,
+    hostId,
+    isRoomLocked,
+    hasWaitingRoom,
+    hasPassword,
+    waitingPeers,
+    hostControls,
+    hostNotice,
+    dismissHostNotice,
+    removedReason,
+    raisedHands,
+    toggleHand,
+    breakouts,
+    currentBreakout,
+    returnToMainRoom,
+    breakoutBroadcast,
+    dismissBreakoutBroadcast,
+    spotlightIds,
+    isReconnecting,
     activeSpeaker,
+    speakingIds,
+    connectionStats,
+    uplinkWarning,
     toggleMute,
     toggleVideo,
+    startScreenShare,
+    stopScreenShare,
     changeAudioInput,
     changeVideoInput,
+    audioSettings,
+    setAudioSettings,
+    backgroundEffect,
+    setBackgroundEffect,
+    setTileSize,
+    setTileVisible,
+    setDetachedParticipants,
     disconnect,
-    setViewMode,
   };
 }
@@ -0,0 +1,169 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  isDocumentPictureInPictureSupported,
+  isVideoPictureInPictureSupported,
+  openCallWindow,
+  openVideoWindow,
+  setAutoPictureInPictureHandler,
+} from "@/lib/pictureInPicture";
+import type { VideoParticipant } from "@/lib/conference";
+import { useBrowserSupport } from "./useBrowserSupport";
+
+interface UsePictureInPictureOptions {
+  // Only while we're in the call
+  enabled: boolean;
+  // Floated on its own where the browser can't float a whole window
+  fallbackParticipant: VideoParticipant | null;
+  // Keeps the floated video flowing, the way a visible tile would
+  onVisibilityChange?: (participantId: string, isVisible: boolean) => void;
+}
+
+const isPictureInPictureSupported = () =>
+  isDocumentPictureInPictureSupported() || isVideoPictureInPictureSupported();
+
+/**
+ * A mini call window that stays on top while we switch tabs: our own UI in
+ * a document picture-in-picture window, or else the active speaker's video.
+ * Where the browser won't open it by itself when the tab is left, it's
+ * offered once on coming back.
+ */
+export function usePictureInPicture({
+  enabled,
+  fallbackParticipant,
+  onVisibilityChange,
+}: UsePictureInPictureOptions) {
+  const isSupported = useBrowserSupport(isPictureInPictureSupported);
+  const [pipWindow, setPipWindow] = useState<Window | null>(null);
+  const [isVideoFloating, setIsVideoFloating] = useState(false);
+  const [isOffered, setIsOffered] = useState(false);
+  const isOpen = !!pipWindow || isVideoFloating;
+
+  const floatedVideoRef = useRef<HTMLVideoElement | null>(null);
+  const isOpenRef = useRef(isOpen);
+  const hasOfferedRef = useRef(false);
+  const fallbackParticipantRef = useRef(fallbackParticipant);
+  const onVisibilityChangeRef = useRef(onVisibilityChange);
+
+  useEffect(() => {
+    isOpenRef.current = isOpen;
+  }, [isOpen]);
+
+  useEffect(() => {
+    fallbackParticipantRef.current = fallbackParticipant;
+  }, [fallbackParticipant]);
+
+  useEffect(() => {
+    onVisibilityChangeRef.current = onVisibilityChange;
+  }, [onVisibilityChange]);
+
+  const open = useCallback(async () => {
+    hasOfferedRef.current = true;
+    setIsOffered(false);
+    try {
+      if (isDocumentPictureInPictureSupported()) {
+        setPipWindow(await openCallWindow());
+        return;
+      }
+      const track = fallbackParticipantRef.current?.videoTrack;
+      if (!track) return;
+      floatedVideoRef.current = await openVideoWindow(track);
+      setIsVideoFloating(true);
+    } catch (err) {
+      console.error("Error opening picture-in-picture:", err);
+    }
+  }, []);
+
+  // Closing happens in the cleanups below
+  const close = useCallback(() => {
+    setPipWindow(null);
+    setIsVideoFloating(false);
+  }, []);
+
+  const dismissOffer = useCallback(() => setIsOffered(false), []);
+
+  useEffect(() => {
+    if (!pipWindow) return;
+    // Also fires when the window is closed from its own controls
+    const handlePageHide = () => setPipWindow(null);
+    pipWindow.addEventListener("pagehide", handlePageHide);
+    return () => {
+      pipWindow.removeEventListener("pagehide", handlePageHide);
+      pipWindow.close();
+    };
+  }, [pipWindow]);
+
+  useEffect(() => {
+    const video = floatedVideoRef.current;
+    if (!isVideoFloating || !video) return;
+    const handleLeave = () => setIsVideoFloating(false);
+    video.addEventListener("leavepictureinpicture", handleLeave);
+    return () => {
+      video.removeEventListener("leavepictureinpicture", handleLeave);
+      if (document.pictureInPictureElement === video) {
+        document.exitPictureInPicture().catch(() => {});
+      }
+      video.remove();
+      floatedVideoRef.current = null;
+    };
+  }, [isVideoFloating]);
+
+  // The floated video follows the active speaker, keeping the last frame
+  // when nobody has a camera on
+  const floatedTrack = isVideoFloating ? fallbackParticipant?.videoTrack : null;
+  const floatedId = isVideoFloating ? fallbackParticipant?.id : undefined;
+
+  useEffect(() => {
+    const video = floatedVideoRef.current;
+    if (!video || !floatedTrack) return;
+    video.srcObject = new MediaStream([floatedTrack]);
+  }, [floatedTrack]);
+
+  useEffect(() => {
+    if (!floatedId) return;
+    onVisibilityChangeRef.current?.(floatedId, true);
+    return () => onVisibilityChangeRef.current?.(floatedId, false);
+  }, [floatedId]);
+
+  // Leaving the call closes the window
+  useEffect(() => {
+    if (!enabled) return;
+    return close;
+  }, [enabled, close]);
+
+  useEffect(() => {
+    if (!enabled || !isDocumentPictureInPictureSupported()) return;
+    if (!setAutoPictureInPictureHandler(() => void open())) return;
+    return () => {
+      setAutoPictureInPictureHandler(null);
+    };
+  }, [enabled, open]);
+
+  useEffect(() => {
+    if (!enabled || !isSupported) return;
+
+    // Coming back means the call was out of sight while we were away
+    const handleVisibilityChange = () => {
+      if (
+        document.visibilityState !== "visible" ||
+        isOpenRef.current ||
+        hasOfferedRef.current
+      )
+        return;
+      hasOfferedRef.current = true;
+      setIsOffered(true);
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () =>
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, [enabled, isSupported]);
+
+  return {
+    isSupported,
+    isOpen,
+    pipWindow,
+    isOffered: isOffered && !isOpen,
+    open,
+    close,
+    dismissOffer,
+  };
+}
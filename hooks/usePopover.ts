@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/**
+ * A menu that hangs off a button. It's placed from the button's rect,
+ * since the menus are portaled out of containers that clip, and closes on
+ * a press outside both or when the window resizes.
+ */
+export function usePopover() {
+  // Where the button is while open
+  const [anchor, setAnchor] = useState<DOMRect | null>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const toggle = useCallback(() => {
+    setAnchor((open) =>
+      open ? null : buttonRef.current!.getBoundingClientRect()
+    );
+  }, []);
+
+  const close = useCallback(() => setAnchor(null), []);
+
+  useEffect(() => {
+    if (!anchor) return;
+
+    const handlePointerDown = (event: PointerEvent) => {
+      const target = event.target as Node;
+      if (
+        !menuRef.current?.contains(target) &&
+        !buttonRef.current?.contains(target)
+      ) {
+        close();
+      }
+    };
+    document.addEventListener("pointerdown", handlePointerDown);
+    window.addEventListener("resize", close);
+    return () => {
+      document.removeEventListener("pointerdown", handlePointerDown);
+      window.removeEventListener("resize", close);
+    };
+  }, [anchor, close]);
+
+  return { anchor, buttonRef, menuRef, toggle, close };
+}
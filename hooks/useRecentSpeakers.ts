@@ -0,0 +1,19 @@
+import { useState } from "react";
+
+// Everyone who has spoken, most recent first. Updated while rendering
+// rather than in an effect, so the order never lags a frame behind.
+export function useRecentSpeakers(speakingIds: string[]) {
+  const [recentSpeakers, setRecentSpeakers] = useState<string[]>([]);
+  const speakingKey = speakingIds.join(",");
+  const [previousKey, setPreviousKey] = useState("");
+
+  if (speakingKey !== previousKey) {
+    setPreviousKey(speakingKey);
+    setRecentSpeakers((prev) => [
+      ...speakingIds,
+      ...prev.filter((id) => !speakingIds.includes(id)),
+    ]);
+  }
+
+  return recentSpeakers;
+}
@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useState } from "react";
+import { SOCKET_URL } from "@/lib/conference";
+import type { InviteStatus, RoomCredentials } from "@/lib/conference";
+import { checkRoomAccess } from "@/lib/roomAccess";
+
+export type RoomAccessStatus = "checking" | "password" | "granted" | "error";
+
+interface RoomAccessState {
+  status: RoomAccessStatus;
+  // Why the invite we came with didn't get us in
+  inviteStatus?: InviteStatus;
+  error?: Error;
+}
+
+interface UseRoomAccessProps {
+  roomId: string;
+  invite: string | null;
+  // Backends without room passwords let everyone through
+  enabled: boolean;
+}
+
+// Decides whether we may see the setup screen, and with which credentials
+export function useRoomAccess({ roomId, invite, enabled }: UseRoomAccessProps) {
+  const [state, setState] = useState<RoomAccessState>({
+    status: enabled ? "checking" : "granted",
+  });
+  const [credentials, setCredentials] = useState<RoomCredentials>({});
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    checkRoomAccess(SOCKET_URL, roomId, invite ? { invite } : {})
+      .then(({ granted, invite: inviteStatus }) => {
+        if (cancelled) return;
+        if (granted) {
+          setCredentials(invite ? { invite } : {});
+          setState({ status: "granted" });
+        } else {
+          console.log("Room needs a password, invite:", inviteStatus);
+          setState({
+            status: "password",
+            inviteStatus: invite ? inviteStatus : undefined,
+          });
+        }
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error("Room access check failed:", err);
+        setState({ status: "error", error: err as Error });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId, invite, enabled]);
+
+  // Resolves to whether the password was right
+  const submitPassword = useCallback(
+    async (password: string) => {
+      const { granted } = await checkRoomAccess(SOCKET_URL, roomId, {
+        password,
+      });
+      if (granted) {
+        setCredentials({ password });
+        setState({ status: "granted" });
+      }
+      return granted;
+    },
+    [roomId]
+  );
+
+  return { ...state, credentials, submitPassword };
+}
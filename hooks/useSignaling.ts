@@ -0,0 +1,11 @@
+import { useMemo } from "react";
+import type { Socket } from "socket.io-client";
+import { createSignalingClient } from "@/lib/signaling";
+
+// One typed signaling client per socket
+export function useSignaling(socket: Socket | null) {
+  return useMemo(
+    () => (socket ? createSignalingClient(socket) : null),
+    [socket]
+  );
+}
@@ -1,117 +1,581 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { io, Socket } from "socket.io-client";
+import { useActiveSpeaker, SpeakerTrack } from "./useActiveSpeaker";
+import { useSignaling } from "./useSignaling";
+import type { MeshSignal } from "@/lib/signaling";
+import type { DeviceSelections, VideoParticipant } from "@/lib/conference";
+import { createRoomMessenger } from "@/lib/roomEvents";
 
-const SOCKET_URL = "http://localhost:5000";
+interface UseWebRTCProps {
+  url: string;
+  roomId: string;
+  userName: string;
+  enabled?: boolean;
+  onDisconnected?: () => void;
+  // Called once the room has outgrown the mesh and should move to the SFU
+  onPromote?: () => void;
+  initialMuted?: boolean;
+  initialVideoOff?: boolean;
+  initialDevices?: DeviceSelections;
+}
 
-export const useWebRTC = (roomId: string) => {
+type MediaKind = "audio" | "video";
+
+interface MediaState {
+  isMuted: boolean;
+  isVideoOff: boolean;
+}
+
+// Per-peer connection plus the perfect negotiation flags from the spec
+interface MeshPeer {
+  pc: RTCPeerConnection;
+  // Negotiated on both sides, so it needs no offer of its own
+  stateChannel: RTCDataChannel;
+  senders: Partial<Record<MediaKind, RTCRtpSender>>;
+  polite: boolean;
+  makingOffer: boolean;
+  ignoreOffer: boolean;
+  isSettingRemoteAnswerPending: boolean;
+}
+
+// Everyone uploads to everyone, so past three people an SFU is cheaper
+export const MAX_MESH_SIZE = 3;
+
+const ICE_SERVERS: RTCIceServer[] = [{ urls: "stun:stun.l.google.com:19302" }];
+const STATE_CHANNEL_ID = 0;
+
+const toVideoConstraints = (deviceId?: string): MediaTrackConstraints | true =>
+  deviceId ? { deviceId } : true;
+
+/**
+ * Full mesh for tiny rooms: one peer connection per remote peer, with the
+ * signaling server only relaying offers, answers and candidates.
+ */
+export const useWebRTC = ({
+  url,
+  roomId,
+  userName,
+  enabled = true,
+  onDisconnected,
+  onPromote,
+  initialMuted = false,
+  initialVideoOff = false,
+  initialDevices,
+}: UseWebRTCProps) => {
   const [socket, setSocket] = useState<Socket | null>(null);
-  const [localStream, setLocalStream] = useState<MediaStream | null>(null);
-  const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
-  const peerConnection = useRef<RTCPeerConnection | null>(null);
-  const localVideoRef = useRef<HTMLVideoElement>(null);
-  const remoteVideoRef = useRef<HTMLVideoElement>(null);
+  const [participants, setParticipants] = useState<VideoParticipant[]>([]);
+  const [localParticipant, setLocalParticipant] =
+    useState<VideoParticipant | null>(null);
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [isMuted, setIsMuted] = useState(initialMuted);
+  const [isVideoOff, setIsVideoOff] = useState(initialVideoOff);
+
+  const signaling = useSignaling(socket);
+  // Room events always go through the server in a mesh
+  const messenger = useMemo(
+    () =>
+      signaling && roomId && userName
+        ? createRoomMessenger({ signaling, roomId, userName })
+        : null,
+    [signaling, roomId, userName]
+  );
+  const peersRef = useRef<Map<string, MeshPeer>>(new Map());
+  const localStreamRef = useRef<MediaStream | null>(null);
+  const mediaStateRef = useRef<MediaState>({
+    isMuted: initialMuted,
+    isVideoOff: initialVideoOff,
+  });
+  const videoDeviceRef = useRef(initialDevices?.videoInput);
+  const onDisconnectedRef = useRef(onDisconnected);
+  const onPromoteRef = useRef(onPromote);
+
+  useEffect(() => {
+    onDisconnectedRef.current = onDisconnected;
+    onPromoteRef.current = onPromote;
+  }, [onDisconnected, onPromote]);
 
   useEffect(() => {
-    const newSocket = io(SOCKET_URL);
+    if (!enabled || !url) return;
+
+    const newSocket = io(url);
     setSocket(newSocket);
 
-    // cleanup
     return () => {
       newSocket.disconnect();
     };
+  }, [enabled, url]);
+
+  const broadcastMediaState = useCallback(() => {
+    const message = JSON.stringify(mediaStateRef.current);
+    for (const { stateChannel } of peersRef.current.values()) {
+      if (stateChannel.readyState === "open") stateChannel.send(message);
+    }
+  }, []);
+
+  // Sends on the existing sender when there is one, so only the first
+  // track of a kind triggers renegotiation
+  const sendTrack = useCallback((peer: MeshPeer, track: MediaStreamTrack) => {
+    const kind = track.kind as MediaKind;
+    const sender = peer.senders[kind];
+    if (sender) {
+      sender.replaceTrack(track).catch((err) => {
+        console.error(`Failed to replace ${kind} track:`, err);
+      });
+    } else if (localStreamRef.current) {
+      peer.senders[kind] = peer.pc.addTrack(track, localStreamRef.current);
+    }
   }, []);
 
   useEffect(() => {
-    if (!socket || !roomId) return;
+    if (!enabled || !signaling || !roomId || !userName) return;
+    const { socket } = signaling;
+
+    let mounted = true;
+    let isPromoted = false;
+    const peers = peersRef.current;
+    // Signals from peers we haven't created yet, in arrival order. An
+    // existing peer can offer before our joinMesh reply is handled.
+    const pendingSignals = new Map<string, MeshSignal[]>();
+
+    const updateParticipant = (
+      peerId: string,
+      update: Partial<VideoParticipant>
+    ) => {
+      setParticipants((prev) =>
+        prev.map((p) => (p.id === peerId ? { ...p, ...update } : p))
+      );
+    };
+
+    const promote = (announce: boolean) => {
+      if (isPromoted) return;
+      isPromoted = true;
+      console.log("Room outgrew the mesh, moving to the SFU");
+      if (announce) signaling.emit("promoteRoom", { roomId });
+      onPromoteRef.current?.();
+    };
+
+    const sendSignal = (to: string, signal: MeshSignal) => {
+      signaling.emit("meshSignal", { roomId, to, ...signal });
+    };
+
+    const closePeer = (peerId: string) => {
+      pendingSignals.delete(peerId);
+      const peer = peers.get(peerId);
+      if (!peer) return;
+      peer.pc.close();
+      peers.delete(peerId);
+      setParticipants((prev) => prev.filter((p) => p.id !== peerId));
+    };
+
+    const createPeer = (peerId: string, peerName: string) => {
+      if (peers.has(peerId)) return;
+
+      const pc = new RTCPeerConnection({ iceServers: ICE_SERVERS });
+      const peer: MeshPeer = {
+        pc,
+        stateChannel: pc.createDataChannel("state", {
+          negotiated: true,
+          id: STATE_CHANNEL_ID,
+        }),
+        senders: {},
+        // Any rule works as long as both ends of a pair agree on it
+        polite: (socket.id ?? "") < peerId,
+        makingOffer: false,
+        ignoreOffer: false,
+        isSettingRemoteAnswerPending: false,
+      };
+      peers.set(peerId, peer);
+
+      setParticipants((prev) => [
+        ...prev.filter((p) => p.id !== peerId),
+        {
+          id: peerId,
+          name: peerName,
+          videoTrack: null,
+          audioTrack: null,
+          screenTrack: null,
+          screenAudioTrack: null,
+          isMuted: true,
+          isVideoOff: true,
+          joinedAt: Date.now(),
+        },
+      ]);
+
+      pc.onnegotiationneeded = async () => {
+        try {
+          peer.makingOffer = true;
+          await pc.setLocalDescription();
+          sendSignal(peerId, { description: pc.localDescription!.toJSON() });
+        } catch (err) {
+          console.error(`Negotiation with ${peerName} failed:`, err);
+        } finally {
+          peer.makingOffer = false;
+        }
+      };
 
-    // Initialize PeerConnection
-    const pc = new RTCPeerConnection({
-      iceServers: [
-        { urls: "stun:stun.l.google.com:19302" }, // Public Google STUN server
-      ],
-    });
+      pc.onicecandidate = ({ candidate }) => {
+        sendSignal(peerId, { candidate: candidate?.toJSON() ?? null });
+      };
+
+      pc.onconnectionstatechange = () => {
+        if (pc.connectionState === "failed") {
+          console.log(`Connection to ${peerName} failed, restarting ICE`);
+          pc.restartIce();
+        }
+      };
+
+      pc.ontrack = ({ track }) => {
+        updateParticipant(
+          peerId,
+          track.kind === "audio" ? { audioTrack: track } : { videoTrack: track }
+        );
+      };
+
+      peer.stateChannel.onopen = () => {
+        peer.stateChannel.send(JSON.stringify(mediaStateRef.current));
+      };
+      peer.stateChannel.onmessage = ({ data }) => {
+        try {
+          const { isMuted, isVideoOff } = JSON.parse(data) as MediaState;
+          updateParticipant(peerId, {
+            isMuted: !!isMuted,
+            isVideoOff: !!isVideoOff,
+          });
+        } catch {
+          console.warn(`Ignoring malformed state from ${peerName}`);
+        }
+      };
 
-    peerConnection.current = pc;
+      localStreamRef.current
+        ?.getTracks()
+        .forEach((track) => sendTrack(peer, track));
 
-    // Handle ICE candidates
-    pc.onicecandidate = (event) => {
-      if (event.candidate) {
-        socket.emit("ice-candidate", { roomId, candidate: event.candidate });
+      // One at a time, so candidates never beat their offer
+      const queued = pendingSignals.get(peerId);
+      pendingSignals.delete(peerId);
+      queued?.reduce(
+        (previous, signal) =>
+          previous.then(() => handleSignal({ from: peerId, ...signal })),
+        Promise.resolve()
+      );
+    };
+
+    const handleSignal = async ({
+      from,
+      description,
+      candidate,
+    }: MeshSignal & { from: string }) => {
+      const peer = peers.get(from);
+      if (!peer) {
+        pendingSignals.set(from, [
+          ...(pendingSignals.get(from) ?? []),
+          { description, candidate },
+        ]);
+        return;
+      }
+      const { pc } = peer;
+
+      try {
+        if (description) {
+          // An offer that crosses ours is glare: the polite side backs off
+          const isReadyForOffer =
+            !peer.makingOffer &&
+            (pc.signalingState === "stable" ||
+              peer.isSettingRemoteAnswerPending);
+          const isOfferCollision =
+            description.type === "offer" && !isReadyForOffer;
+
+          peer.ignoreOffer = !peer.polite && isOfferCollision;
+          if (peer.ignoreOffer) return;
+
+          peer.isSettingRemoteAnswerPending = description.type === "answer";
+          await pc.setRemoteDescription(description);
+          peer.isSettingRemoteAnswerPending = false;
+
+          if (description.type === "offer") {
+            await pc.setLocalDescription();
+            sendSignal(from, { description: pc.localDescription!.toJSON() });
+          }
+        } else if (candidate !== undefined) {
+          try {
+            await pc.addIceCandidate(candidate ?? undefined);
+          } catch (err) {
+            // Candidates for an offer we dropped are expected to fail
+            if (!peer.ignoreOffer) throw err;
+          }
+        }
+      } catch (err) {
+        console.error(`Signaling with ${from} failed:`, err);
       }
     };
 
-    // Handle incoming tracks
-    pc.ontrack = (event) => {
-      setRemoteStream(event.streams[0]);
-      if (remoteVideoRef.current) {
-        remoteVideoRef.current.srcObject = event.streams[0];
+    const join = async () => {
+      setIsConnecting(true);
+      setError(null);
+
+      try {
+        if (!socket.connected) {
+          await new Promise<void>((resolve, reject) => {
+            socket.once("connect", () => resolve());
+            socket.once("connect_error", reject);
+          });
+        }
+
+        if (!localStreamRef.current) {
+          const stream = await navigator.mediaDevices.getUserMedia({
+            audio: initialDevices?.audioInput
+              ? { deviceId: initialDevices.audioInput }
+              : true,
+            video: initialVideoOff
+              ? false
+              : toVideoConstraints(initialDevices?.videoInput),
+          });
+          if (!mounted) {
+            stream.getTracks().forEach((track) => track.stop());
+            return;
+          }
+          stream.getAudioTracks().forEach((track) => {
+            track.enabled = !initialMuted;
+          });
+          localStreamRef.current = stream;
+        }
+        const stream = localStreamRef.current;
+
+        setLocalParticipant({
+          id: socket.id!,
+          name: userName,
+          videoTrack: stream.getVideoTracks()[0] ?? null,
+          audioTrack: stream.getAudioTracks()[0] ?? null,
+          screenTrack: null,
+          screenAudioTrack: null,
+          isMuted: mediaStateRef.current.isMuted,
+          isVideoOff: mediaStateRef.current.isVideoOff,
+          joinedAt: Date.now(),
+        });
+
+        const { peers: existingPeers, promoted } = await signaling.request(
+          "joinMesh",
+          { roomId, userName }
+        );
+        if (!mounted) return;
+
+        if (promoted || existingPeers.length + 1 > MAX_MESH_SIZE) {
+          promote(!promoted);
+          return;
+        }
+
+        console.log(`Joined mesh with ${existingPeers.length} peer(s)`);
+        existingPeers.forEach(({ id, name }) => createPeer(id, name));
+        setIsConnecting(false);
+      } catch (err) {
+        console.error("Failed to join mesh:", err);
+        if (!mounted) return;
+        setError(err as Error);
+        setIsConnecting(false);
       }
     };
 
-    // Get User Media
-    navigator.mediaDevices
-      .getUserMedia({ video: true, audio: true })
-      .then((stream) => {
-        setLocalStream(stream);
-        if (localVideoRef.current) {
-          localVideoRef.current.srcObject = stream;
+    const unsubscribers = [
+      signaling.on("meshPeerJoined", ({ peerId, peerName }) => {
+        console.log(`${peerName} joined the mesh`);
+        createPeer(peerId, peerName);
+        if (peers.size + 1 > MAX_MESH_SIZE) promote(true);
+      }),
+      signaling.on("meshPeerLeft", ({ peerId }) => closePeer(peerId)),
+      signaling.on("meshSignal", handleSignal),
+      signaling.on("roomPromoted", () => promote(false)),
+    ];
+
+    // Moving to the SFU drops this socket too, but the call goes on
+    const handleDisconnect = (reason: Socket.DisconnectReason) => {
+      if (isPromoted) return;
+      if (
+        reason === "io client disconnect" ||
+        reason === "io server disconnect"
+      ) {
+        onDisconnectedRef.current?.();
+      }
+    };
+    socket.on("disconnect", handleDisconnect);
+
+    join();
+
+    return () => {
+      mounted = false;
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      socket.off("disconnect", handleDisconnect);
+      if (socket.connected) signaling.emit("leaveMesh", { roomId });
+
+      for (const peerId of peers.keys()) closePeer(peerId);
+      localStreamRef.current?.getTracks().forEach((track) => track.stop());
+      localStreamRef.current = null;
+    };
+  }, [
+    enabled,
+    signaling,
+    roomId,
+    userName,
+    initialMuted,
+    initialVideoOff,
+    initialDevices,
+    sendTrack,
+  ]);
+
+  const replaceLocalTrack = useCallback(
+    (kind: MediaKind, track: MediaStreamTrack | null) => {
+      const stream = localStreamRef.current;
+      if (!stream) return;
+
+      const oldTrack =
+        kind === "audio"
+          ? stream.getAudioTracks()[0]
+          : stream.getVideoTracks()[0];
+      if (oldTrack) {
+        stream.removeTrack(oldTrack);
+        oldTrack.stop();
+      }
+      if (track) stream.addTrack(track);
+
+      for (const peer of peersRef.current.values()) {
+        if (track) {
+          sendTrack(peer, track);
+        } else {
+          peer.senders[kind]?.replaceTrack(null);
         }
-        stream.getTracks().forEach((track) => {
-          pc.addTrack(track, stream);
+      }
+
+      setLocalParticipant((prev) =>
+        prev
+          ? {
+              ...prev,
+              [kind === "audio" ? "audioTrack" : "videoTrack"]: track,
+            }
+          : null
+      );
+    },
+    [sendTrack]
+  );
+
+  const toggleMute = useCallback(async () => {
+    const audioTrack = localStreamRef.current?.getAudioTracks()[0];
+    if (!audioTrack) return;
+
+    const nextMuted = !mediaStateRef.current.isMuted;
+    audioTrack.enabled = !nextMuted;
+    mediaStateRef.current.isMuted = nextMuted;
+    setIsMuted(nextMuted);
+    setLocalParticipant((prev) =>
+      prev ? { ...prev, isMuted: nextMuted } : null
+    );
+    broadcastMediaState();
+  }, [broadcastMediaState]);
+
+  // The camera is released while off, so its light goes out too
+  const toggleVideo = useCallback(async () => {
+    const nextVideoOff = !mediaStateRef.current.isVideoOff;
+
+    if (nextVideoOff) {
+      replaceLocalTrack("video", null);
+    } else {
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: toVideoConstraints(videoDeviceRef.current),
         });
+        replaceLocalTrack("video", stream.getVideoTracks()[0]);
+      } catch (err) {
+        console.error("Failed to start camera:", err);
+        return;
+      }
+    }
+
+    mediaStateRef.current.isVideoOff = nextVideoOff;
+    setIsVideoOff(nextVideoOff);
+    setLocalParticipant((prev) =>
+      prev ? { ...prev, isVideoOff: nextVideoOff } : null
+    );
+    broadcastMediaState();
+  }, [replaceLocalTrack, broadcastMediaState]);
 
-        // Join room after stream is ready
-        socket.emit("join-room", roomId, socket.id);
-      })
-      .catch((err) => console.error("Error accessing media devices:", err));
-
-    // Socket Events
-    socket.on("user-connected", async (userId) => {
-      console.log("User connected:", userId);
-      // Initiate Offer
-      const offer = await pc.createOffer();
-      await pc.setLocalDescription(offer);
-      socket.emit("offer", { roomId, offer });
-    });
-
-    socket.on("offer", async ({ offer }) => {
-      console.log("Received Offer");
-      await pc.setRemoteDescription(new RTCSessionDescription(offer));
-      const answer = await pc.createAnswer();
-      await pc.setLocalDescription(answer);
-      socket.emit("answer", { roomId, answer });
-    });
-
-    socket.on("answer", async ({ answer }) => {
-      console.log("Received Answer");
-      await pc.setRemoteDescription(new RTCSessionDescription(answer));
-    });
-
-    socket.on("ice-candidate", async ({ candidate }) => {
+  const changeAudioInput = useCallback(
+    async (deviceId: string) => {
       try {
-        await pc.addIceCandidate(new RTCIceCandidate(candidate));
-      } catch (e) {
-        console.error("Error adding ice candidate", e);
+        const stream = await navigator.mediaDevices.getUserMedia({
+          audio: { deviceId: { exact: deviceId } },
+        });
+        const newTrack = stream.getAudioTracks()[0];
+        newTrack.enabled = !mediaStateRef.current.isMuted;
+        replaceLocalTrack("audio", newTrack);
+      } catch (err) {
+        console.error("Failed to switch microphone:", err);
       }
-    });
+    },
+    [replaceLocalTrack]
+  );
 
-    return () => {
-      if (localStream) {
-        localStream.getTracks().forEach((track) => track.stop());
+  const changeVideoInput = useCallback(
+    async (deviceId: string) => {
+      videoDeviceRef.current = deviceId;
+      // Picked up next time the camera is turned on
+      if (mediaStateRef.current.isVideoOff) return;
+
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: { deviceId: { exact: deviceId } },
+        });
+        replaceLocalTrack("video", stream.getVideoTracks()[0]);
+      } catch (err) {
+        console.error("Failed to switch camera:", err);
       }
-      pc.close();
-      socket.off("user-connected");
-      socket.off("offer");
-      socket.off("answer");
-      socket.off("ice-candidate");
-    };
-  }, [socket, roomId]);
+    },
+    [replaceLocalTrack]
+  );
+
+  const speakerTracks = useMemo<SpeakerTrack[]>(() => {
+    const tracks: SpeakerTrack[] = participants
+      .filter((p) => p.audioTrack && !p.isMuted)
+      .map((p) => ({ id: p.id, track: p.audioTrack! }));
+    if (localParticipant?.audioTrack && !isMuted) {
+      tracks.push({
+        id: localParticipant.id,
+        track: localParticipant.audioTrack,
+      });
+    }
+    return tracks;
+  }, [participants, localParticipant, isMuted]);
+
+  const { activeSpeakerId, speakingIds } = useActiveSpeaker({
+    tracks: speakerTracks,
+  });
+
+  const activeSpeaker = useMemo(() => {
+    if (!activeSpeakerId) return null;
+    if (localParticipant?.id === activeSpeakerId) return localParticipant;
+    return participants.find((p) => p.id === activeSpeakerId) ?? null;
+  }, [activeSpeakerId, localParticipant, participants]);
+
+  const disconnect = useCallback(() => {
+    signaling?.emit("leaveMesh", { roomId });
+    socket?.disconnect();
+  }, [signaling, socket, roomId]);
 
   return {
     socket,
-    localVideoRef,
-    remoteVideoRef,
+    messenger,
+    participants,
+    localParticipant,
+    activeSpeaker,
+    speakingIds,
+    isConnecting,
+    error,
+    isMuted,
+    isVideoOff,
+    toggleMute,
+    toggleVideo,
+    changeAudioInput,
+    changeVideoInput,
+    disconnect,
   };
 };
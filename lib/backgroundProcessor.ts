@@ -0,0 +1,220 @@
+import type {
+  Results,
+  SelfieSegmentation,
+} from "@mediapipe/selfie_segmentation";
+
+export type BlurLevel = "light" | "strong";
+
+export type BackgroundEffect =
+  | { type: "none" }
+  | { type: "blur"; level: BlurLevel }
+  | { type: "image"; src: string };
+
+export const NO_BACKGROUND_EFFECT: BackgroundEffect = { type: "none" };
+
+export interface BackgroundProcessor {
+  // Canvas-backed track to show and send instead of the camera track
+  track: MediaStreamTrack;
+  setEffect: (effect: BackgroundEffect) => void;
+  stop: () => void;
+}
+
+// Model and wasm are copied to public/ on install (scripts/copy-mediapipe.mjs)
+const MEDIAPIPE_PATH = "/mediapipe";
+const FRAME_RATE = 30;
+
+const BLUR_RADIUS: Record<BlurLevel, number> = {
+  light: 6,
+  strong: 14,
+};
+
+declare global {
+  interface Window {
+    SelfieSegmentation?: typeof SelfieSegmentation;
+  }
+}
+
+let scriptPromise: Promise<typeof SelfieSegmentation> | null = null;
+
+// The solution script registers a global rather than exporting a module
+const loadSegmentation = () => {
+  scriptPromise ??= new Promise((resolve, reject) => {
+    if (window.SelfieSegmentation) {
+      resolve(window.SelfieSegmentation);
+      return;
+    }
+    const script = document.createElement("script");
+    script.src = `${MEDIAPIPE_PATH}/selfie_segmentation.js`;
+    script.crossOrigin = "anonymous";
+    script.onload = () =>
+      window.SelfieSegmentation
+        ? resolve(window.SelfieSegmentation)
+        : reject(new Error("Segmentation model failed to load"));
+    script.onerror = () => {
+      scriptPromise = null;
+      reject(new Error("Segmentation model failed to load"));
+    };
+    document.head.appendChild(script);
+  });
+  return scriptPromise;
+};
+
+export const isSameEffect = (a: BackgroundEffect, b: BackgroundEffect) =>
+  a.type === b.type &&
+  (a.type !== "blur" || a.level === (b as typeof a).level) &&
+  (a.type !== "image" || a.src === (b as typeof a).src);
+
+// Timers in a worker keep ticking in background tabs, where
+// requestAnimationFrame stops and main-thread timers drop to 1Hz
+const createTicker = (onTick: () => void) => {
+  const url = URL.createObjectURL(
+    new Blob([`setInterval(() => postMessage(0), ${1000 / FRAME_RATE});`], {
+      type: "text/javascript",
+    })
+  );
+  const worker = new Worker(url);
+  worker.onmessage = onTick;
+  return () => {
+    worker.terminate();
+    URL.revokeObjectURL(url);
+  };
+};
+
+const drawCover = (
+  ctx: CanvasRenderingContext2D,
+  image: HTMLImageElement,
+  width: number,
+  height: number
+) => {
+  const scale = Math.max(
+    width / image.naturalWidth,
+    height / image.naturalHeight
+  );
+  const drawWidth = image.naturalWidth * scale;
+  const drawHeight = image.naturalHeight * scale;
+  ctx.drawImage(
+    image,
+    (width - drawWidth) / 2,
+    (height - drawHeight) / 2,
+    drawWidth,
+    drawHeight
+  );
+};
+
+/**
+ * Runs a camera track through person segmentation and composites it over
+ * a blurred copy of itself or an image. The input track stays owned by the
+ * caller; only the output track is stopped here.
+ */
+export async function createBackgroundProcessor(
+  input: MediaStreamTrack,
+  initialEffect: BackgroundEffect
+): Promise<BackgroundProcessor> {
+  const Segmentation = await loadSegmentation();
+  const segmentation = new Segmentation({
+    locateFile: (file) => `${MEDIAPIPE_PATH}/${file}`,
+  });
+  segmentation.setOptions({ modelSelection: 1 });
+  await segmentation.initialize();
+
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = new MediaStream([input]);
+  await video.play().catch(() => {});
+
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d")!;
+  const { width = 1280, height = 720 } = input.getSettings();
+  canvas.width = width;
+  canvas.height = height;
+
+  let effect = initialEffect;
+  let backgroundImage: HTMLImageElement | null = null;
+  let isProcessing = false;
+  let isStopped = false;
+
+  const loadImage = (src: string) => {
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.onload = () => {
+      // Ignore images that finished loading after the effect changed again
+      if (effect.type === "image" && effect.src === src) {
+        backgroundImage = image;
+      }
+    };
+    image.src = src;
+  };
+
+  const setEffect = (next: BackgroundEffect) => {
+    effect = next;
+    backgroundImage = null;
+    if (next.type === "image") loadImage(next.src);
+  };
+  setEffect(initialEffect);
+
+  segmentation.onResults(({ image, segmentationMask }: Results) => {
+    const { width, height } = canvas;
+    ctx.save();
+    ctx.clearRect(0, 0, width, height);
+
+    // Keep only the person...
+    ctx.drawImage(segmentationMask, 0, 0, width, height);
+    ctx.globalCompositeOperation = "source-in";
+    ctx.drawImage(image, 0, 0, width, height);
+
+    // ...then fill in behind them
+    ctx.globalCompositeOperation = "destination-over";
+    if (effect.type === "image" && backgroundImage) {
+      drawCover(ctx, backgroundImage, width, height);
+    } else {
+      // Blur doubles as the placeholder while an image loads
+      const level = effect.type === "blur" ? effect.level : "strong";
+      ctx.filter = `blur(${BLUR_RADIUS[level]}px)`;
+      ctx.drawImage(image, 0, 0, width, height);
+    }
+    ctx.restore();
+  });
+
+  const processFrame = async () => {
+    if (isProcessing || isStopped || video.readyState < 2) return;
+    isProcessing = true;
+
+    // Follow resolution changes, e.g. after the camera renegotiates
+    if (
+      video.videoWidth &&
+      (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight)
+    ) {
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+    }
+
+    try {
+      if (effect.type === "none") {
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      } else {
+        await segmentation.send({ image: video });
+      }
+    } catch (err) {
+      console.error("Error processing video frame:", err);
+    } finally {
+      isProcessing = false;
+    }
+  };
+
+  const stopTicker = createTicker(processFrame);
+  const track = canvas.captureStream(FRAME_RATE).getVideoTracks()[0];
+
+  return {
+    track,
+    setEffect,
+    stop: () => {
+      if (isStopped) return;
+      isStopped = true;
+      stopTicker();
+      track.stop();
+      video.srcObject = null;
+      segmentation.close().catch(() => {});
+    },
+  };
+}
@@ -0,0 +1,355 @@
+import type { Socket } from "socket.io-client";
+import type { BackgroundEffect } from "./backgroundProcessor";
+import type { RoomMessenger } from "./roomEvents";
+import type {
+  BreakoutRoom,
+  BreakoutState,
+  RemovalReason,
+  RoomCredentials,
+  WaitingPeer,
+} from "./signaling";
+
+export type {
+  BreakoutRoom,
+  BreakoutState,
+  InviteStatus,
+  RemovalReason,
+  RoomCredentials,
+  WaitingPeer,
+} from "./signaling";
+
+// Shared model for every conference backend. Layouts, tiles and the room
+// page only ever see these types, never a backend's own objects.
+
+export type ConferenceBackend = "mediasoup" | "livekit" | "p2p";
+
+export type ViewMode = "grid" | "speaker" | "sidebar";
+
+export interface DeviceSelections {
+  audioInput?: string;
+  videoInput?: string;
+  audioOutput?: string;
+}
+
+export interface AudioSettings {
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  // Unprocessed stereo at a high bitrate, for instruments and singing
+  musicMode: boolean;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  musicMode: false,
+};
+
+export interface TileSize {
+  width: number;
+  height: number;
+}
+
+export interface VideoParticipant {
+  id: string;
+  name: string;
+  videoTrack: MediaStreamTrack | null;
+  audioTrack: MediaStreamTrack | null;
+  screenTrack: MediaStreamTrack | null;
+  screenAudioTrack: MediaStreamTrack | null;
+  isMuted: boolean;
+  isVideoOff: boolean;
+  // Milliseconds since the epoch; when we first saw them if nobody says
+  joinedAt: number;
+}
+
+export type ConnectionQuality =
+  | "excellent"
+  | "good"
+  | "poor"
+  | "bad"
+  | "unknown";
+
+export interface MediaStats {
+  // Bits per second over the last interval
+  bitrate: number;
+  // Percentage of packets lost over the last interval
+  packetLoss: number;
+  // Milliseconds
+  jitter: number;
+  frameWidth?: number;
+  frameHeight?: number;
+  framesPerSecond?: number;
+}
+
+export interface ConnectionStats {
+  quality: ConnectionQuality;
+  audio: MediaStats | null;
+  video: MediaStats | null;
+  // Round trip to the server (or peer) in milliseconds
+  rtt: number | null;
+  // Only reported for the local uplink
+  qualityLimitationReason?: RTCQualityLimitationReason;
+  availableOutgoingBitrate?: number;
+}
+
+export type UplinkWarning = "bandwidth" | "cpu" | "network";
+
+export interface BreakoutPlan {
+  name: string;
+  participantIds: string[];
+}
+
+// A message the host sent to every breakout
+export interface BreakoutBroadcast {
+  message: string;
+  senderName: string;
+}
+
+export const NO_BREAKOUTS: BreakoutState = { rooms: [], endsAt: null };
+
+export interface InviteOptions {
+  // Seconds until the link stops working
+  expiresIn: number;
+  // null for as many people as like
+  maxUses: number | null;
+}
+
+// Moderation, only handed to the room's host
+export interface HostControls {
+  muteParticipant: (participantId: string) => Promise<void>;
+  stopParticipantVideo: (participantId: string) => Promise<void>;
+  removeParticipant: (participantId: string) => Promise<void>;
+  makeHost: (participantId: string) => Promise<void>;
+  setRoomLocked: (locked: boolean) => Promise<void>;
+  endForAll: () => Promise<void>;
+  setWaitingRoom: (enabled: boolean) => Promise<void>;
+  admit: (participantId: string) => Promise<void>;
+  deny: (participantId: string) => Promise<void>;
+  admitAll: () => Promise<void>;
+  lowerHand: (participantId: string) => Promise<void>;
+  // Resolves to whoever was called on, null if no hands were up
+  callOnNext: () => Promise<string | null>;
+  // Features these participants for everyone; an empty list ends it
+  setSpotlight: (participantIds: string[]) => Promise<void>;
+  // Duration and countdown are in seconds
+  openBreakouts: (
+    rooms: BreakoutPlan[],
+    duration: number | null
+  ) => Promise<void>;
+  // null moves them back to the main room
+  moveToBreakout: (
+    participantId: string,
+    breakoutId: string | null
+  ) => Promise<void>;
+  closeBreakouts: (countdown: number) => Promise<void>;
+  broadcastToBreakouts: (message: string) => Promise<void>;
+  // null removes the password
+  setPassword: (password: string | null) => Promise<void>;
+  // Resolves to the invite token for the room link
+  createInvite: (options: InviteOptions) => Promise<string>;
+}
+
+// Where we are on the way into the room. Knocking means asking whether
+// we can go straight in; waiting means the host hasn't decided yet.
+export type Admission = "knocking" | "waiting" | "admitted" | "denied";
+
+// Something the host did to us
+export type HostNotice = "muted" | "videoStopped" | "madeHost" | "calledOn";
+
+// What a backend can do beyond the basics, so the UI can hide the rest
+export interface ConferenceFeatures {
+  screenShare: boolean;
+  backgroundEffects: boolean;
+  audioSettings: boolean;
+  // Whether a room passphrase can be used to encrypt media end to end
+  e2ee: boolean;
+  // Whether rooms can have a password and invite links
+  roomAccess: boolean;
+  raiseHand: boolean;
+  breakoutRooms: boolean;
+  spotlight: boolean;
+}
+
+export const BACKEND_FEATURES: Record<ConferenceBackend, ConferenceFeatures> = {
+  mediasoup: {
+    screenShare: true,
+    backgroundEffects: true,
+    audioSettings: true,
+    e2ee: true,
+    roomAccess: true,
+    raiseHand: true,
+    breakoutRooms: true,
+    spotlight: true,
+  },
+  livekit: {
+    screenShare: true,
+    backgroundEffects: false,
+    audioSettings: false,
+    e2ee: false,
+    roomAccess: false,
+    raiseHand: false,
+    breakoutRooms: false,
+    spotlight: false,
+  },
+  // The mesh has no frame encryption of its own, so no passphrase is asked
+  // for even though promoted rooms use mediasoup
+  p2p: {
+    screenShare: false,
+    backgroundEffects: false,
+    audioSettings: false,
+    e2ee: false,
+    roomAccess: false,
+    raiseHand: false,
+    breakoutRooms: false,
+    spotlight: false,
+  },
+};
+
+export interface ConferenceOptions {
+  roomId: string;
+  userName: string;
+  enabled?: boolean;
+  onDisconnected?: () => void;
+  initialMuted?: boolean;
+  initialVideoOff?: boolean;
+  initialDevices?: DeviceSelections;
+  initialBackgroundEffect?: BackgroundEffect;
+  // Turns on end-to-end encryption when set
+  e2eePassphrase?: string;
+  // What got us past the room's password, if it has one
+  credentials?: RoomCredentials;
+}
+
+// What each backend adapter provides
+export interface ConferenceSession {
+  // Signaling socket, if the backend has one
+  socket: Socket | null;
+  // Chat and reactions, if the backend carries them
+  messenger: RoomMessenger | null;
+  features: ConferenceFeatures;
+  localParticipant: VideoParticipant | null;
+  participants: VideoParticipant[];
+  activeSpeaker: VideoParticipant | null;
+  speakingIds: string[];
+  connectionStats: Record<string, ConnectionStats>;
+  uplinkWarning: UplinkWarning | null;
+  isConnecting: boolean;
+  isReconnecting: boolean;
+  error: Error | null;
+  isMuted: boolean;
+  isVideoOff: boolean;
+  isScreenSharing: boolean;
+  isEncrypted: boolean;
+  // Participants whose media can't be decrypted with our passphrase
+  decryptionFailedIds: string[];
+  admission: Admission;
+  hostId: string | null;
+  isRoomLocked: boolean;
+  hasWaitingRoom: boolean;
+  hasPassword: boolean;
+  // The waiting room queue, only known to the host
+  waitingPeers: WaitingPeer[];
+  // Only set while we are the host
+  hostControls: HostControls | null;
+  hostNotice: HostNotice | null;
+  dismissHostNotice: () => void;
+  // Set once the host has removed us or ended the room
+  removedReason: RemovalReason | null;
+  // Peer IDs with a hand up, first raised first
+  raisedHands: string[];
+  toggleHand: () => Promise<void>;
+  breakouts: BreakoutState;
+  // The breakout we're in, null in the main room
+  currentBreakout: BreakoutRoom | null;
+  returnToMainRoom: () => Promise<void>;
+  breakoutBroadcast: BreakoutBroadcast | null;
+  dismissBreakoutBroadcast: () => void;
+  // Participants the host featured for everyone
+  spotlightIds: string[];
+  toggleMute: () => Promise<void>;
+  toggleVideo: () => Promise<void>;
+  startScreenShare: () => Promise<void>;
+  stopScreenShare: () => void;
+  changeAudioInput: (deviceId: string) => Promise<void>;
+  changeVideoInput: (deviceId: string) => Promise<void>;
+  audioSettings: AudioSettings;
+  setAudioSettings: (settings: AudioSettings) => Promise<void>;
+  backgroundEffect: BackgroundEffect;
+  setBackgroundEffect: (effect: BackgroundEffect) => Promise<void>;
+  setTileSize: (participantId: string, size: TileSize) => void;
+  setTileVisible: (participantId: string, isVisible: boolean) => void;
+  // Participants with no tile at all, such as those on another grid page.
+  // Their cameras stay off until they are rendered again.
+  setDetachedParticipants: (participantIds: string[]) => void;
+  disconnect: () => void;
+}
+
+// For backends without host roles, a waiting room, raised hands, breakouts
+// or a spotlight
+export const WITHOUT_MODERATION: Pick<
+  ConferenceSession,
+  | "admission"
+  | "hostId"
+  | "isRoomLocked"
+  | "hasWaitingRoom"
+  | "hasPassword"
+  | "waitingPeers"
+  | "hostControls"
+  | "hostNotice"
+  | "dismissHostNotice"
+  | "removedReason"
+  | "raisedHands"
+  | "toggleHand"
+  | "breakouts"
+  | "currentBreakout"
+  | "returnToMainRoom"
+  | "breakoutBroadcast"
+  | "dismissBreakoutBroadcast"
+  | "spotlightIds"
+> = {
+  admission: "admitted",
+  hostId: null,
+  isRoomLocked: false,
+  hasWaitingRoom: false,
+  hasPassword: false,
+  waitingPeers: [],
+  hostControls: null,
+  hostNotice: null,
+  dismissHostNotice: () => {},
+  removedReason: null,
+  raisedHands: [],
+  toggleHand: async () => {},
+  breakouts: NO_BREAKOUTS,
+  currentBreakout: null,
+  returnToMainRoom: async () => {},
+  breakoutBroadcast: null,
+  dismissBreakoutBroadcast: () => {},
+  spotlightIds: [],
+};
+
+export interface Conference extends ConferenceSession {
+  viewMode: ViewMode;
+  setViewMode: (mode: ViewMode) => void;
+  // Participants we pinned for ourselves, in the order we pinned them
+  pinnedIds: string[];
+  togglePin: (participantId: string) => void;
+  clearPins: () => void;
+}
+
+const BACKENDS: ConferenceBackend[] = ["mediasoup", "livekit", "p2p"];
+
+const configuredBackend = process.env.NEXT_PUBLIC_CONFERENCE_BACKEND;
+
+export const CONFERENCE_BACKEND: ConferenceBackend = BACKENDS.includes(
+  configuredBackend as ConferenceBackend
+)
+  ? (configuredBackend as ConferenceBackend)
+  : "mediasoup";
+
+export const SOCKET_URL =
+  process.env.NEXT_PUBLIC_SOCKET_URL || "http://10.80.224.96:5000";
+
+export const LIVEKIT_URL =
+  process.env.NEXT_PUBLIC_LIVEKIT_URL || "ws://localhost:7880";
@@ -0,0 +1,123 @@
+import type {
+  E2EEDecryptionMessage,
+  E2EETransformOptions,
+  E2EEWorkerMessage,
+} from "./e2eeWorker";
+
+// Chromium's older insertable streams API, which TypeScript doesn't know
+interface EncodedStreams {
+  readable: ReadableStream;
+  writable: WritableStream;
+}
+type WithEncodedStreams<T> = T & {
+  createEncodedStreams?: () => EncodedStreams;
+};
+
+export interface E2EESession {
+  // Extra peer connection config the transports must be created with
+  transportSettings: Partial<RTCConfiguration> | undefined;
+  encrypt: (sender: RTCRtpSender, id: string) => void;
+  decrypt: (receiver: RTCRtpReceiver, id: string) => void;
+  stop: () => void;
+}
+
+const PBKDF2_ITERATIONS = 100_000;
+const KEY_SALT_PREFIX = "baithak-e2ee:";
+const KEY_HASH_PARAM = "key";
+
+const hasScriptTransform = () => typeof RTCRtpScriptTransform !== "undefined";
+
+const hasEncodedStreams = () =>
+  typeof RTCRtpSender !== "undefined" &&
+  "createEncodedStreams" in RTCRtpSender.prototype;
+
+export const isE2EESupported = () =>
+  typeof Worker !== "undefined" &&
+  (hasScriptTransform() || hasEncodedStreams());
+
+// Salted with the room, so one passphrase gives every room its own key
+const deriveRoomKey = async (passphrase: string, roomId: string) => {
+  const encoder = new TextEncoder();
+  const material = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    {
+      name: "PBKDF2",
+      salt: encoder.encode(KEY_SALT_PREFIX + roomId),
+      iterations: PBKDF2_ITERATIONS,
+      hash: "SHA-256",
+    },
+    material,
+    { name: "AES-GCM", length: 128 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+};
+
+/**
+ * Frame encryption for one call. Every sender and receiver handed to it is
+ * routed through a worker that encrypts or decrypts with the room key;
+ * receivers whose frames stop (or start) decrypting are reported back.
+ */
+export async function createE2EESession(
+  passphrase: string,
+  roomId: string,
+  onDecryptionChange: (id: string, ok: boolean) => void
+): Promise<E2EESession> {
+  if (!isE2EESupported()) {
+    throw new Error("This browser can't join end-to-end encrypted rooms");
+  }
+
+  const key = await deriveRoomKey(passphrase, roomId);
+  const worker = new Worker(new URL("./e2eeWorker.ts", import.meta.url), {
+    type: "module",
+  });
+  const post = (message: E2EEWorkerMessage, transfer: Transferable[] = []) =>
+    worker.postMessage(message, transfer);
+
+  worker.onmessage = ({ data }: MessageEvent<E2EEDecryptionMessage>) => {
+    if (data.type === "decryption") onDecryptionChange(data.id, data.ok);
+  };
+  post({ type: "setKey", key });
+
+  const useScriptTransform = hasScriptTransform();
+
+  const attach = (
+    endpoint: WithEncodedStreams<RTCRtpSender | RTCRtpReceiver>,
+    options: E2EETransformOptions
+  ) => {
+    if (useScriptTransform) {
+      endpoint.transform = new RTCRtpScriptTransform(worker, options);
+      return;
+    }
+    const { readable, writable } = endpoint.createEncodedStreams!();
+    post({ type: "transform", ...options, readable, writable }, [
+      readable,
+      writable,
+    ] as unknown as Transferable[]);
+  };
+
+  return {
+    transportSettings: useScriptTransform
+      ? undefined
+      : ({ encodedInsertableStreams: true } as Partial<RTCConfiguration>),
+    encrypt: (sender, id) => attach(sender, { operation: "encrypt", id }),
+    decrypt: (receiver, id) => attach(receiver, { operation: "decrypt", id }),
+    stop: () => worker.terminate(),
+  };
+}
+
+// The passphrase rides in the link's fragment, which browsers never send
+export const getPassphraseFromHash = (hash: string) =>
+  new URLSearchParams(hash.replace(/^#/, "")).get(KEY_HASH_PARAM) ?? "";
+
+export const withPassphraseHash = (url: string, passphrase: string) => {
+  const base = url.split("#")[0];
+  if (!passphrase) return base;
+  return `${base}#${new URLSearchParams({ [KEY_HASH_PARAM]: passphrase })}`;
+};
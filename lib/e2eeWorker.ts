@@ -0,0 +1,164 @@
+// Encrypts outgoing and decrypts incoming encoded frames for E2EE rooms.
+// Receives streams either through RTCRtpScriptTransform (rtctransform
+// events) or, on Chromium, as transferred createEncodedStreams() pairs.
+
+export type E2EEOperation = "encrypt" | "decrypt";
+
+export interface E2EETransformOptions {
+  operation: E2EEOperation;
+  id: string;
+}
+
+export type E2EEWorkerMessage =
+  | { type: "setKey"; key: CryptoKey }
+  | (E2EETransformOptions & {
+      type: "transform";
+      readable: ReadableStream;
+      writable: WritableStream;
+    });
+
+export interface E2EEDecryptionMessage {
+  type: "decryption";
+  id: string;
+  ok: boolean;
+}
+
+type EncodedFrame = RTCEncodedVideoFrame | RTCEncodedAudioFrame;
+
+// The worker global isn't in the DOM typings this project compiles with
+interface WorkerScope {
+  postMessage(message: E2EEDecryptionMessage): void;
+  onmessage: ((event: MessageEvent<E2EEWorkerMessage>) => void) | null;
+  onrtctransform?: (event: {
+    transformer: {
+      readable: ReadableStream;
+      writable: WritableStream;
+      options: E2EETransformOptions;
+    };
+  }) => void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+// Codec headers stay readable so the SFU can spot keyframes and the
+// decoder can tell a bad frame from a broken stream. They are still
+// authenticated as additional data.
+const CLEAR_BYTES: Record<RTCEncodedVideoFrameType | "audio", number> = {
+  key: 10,
+  delta: 3,
+  empty: 0,
+  audio: 1,
+};
+
+let key: CryptoKey | null = null;
+// Receivers currently failing to decrypt, so only changes get reported
+const failing = new Set<string>();
+
+const getClearBytes = (frame: EncodedFrame) =>
+  "type" in frame ? CLEAR_BYTES[frame.type] : CLEAR_BYTES.audio;
+
+const reportDecryption = (id: string, ok: boolean) => {
+  if (ok !== failing.has(id)) return;
+  if (ok) {
+    failing.delete(id);
+  } else {
+    failing.add(id);
+  }
+  scope.postMessage({ type: "decryption", id, ok });
+};
+
+// Frame layout: clear header | ciphertext + tag | IV
+const encryptFrame = async (
+  frame: EncodedFrame,
+  controller: TransformStreamDefaultController<EncodedFrame>
+) => {
+  // Without a key nothing is sent rather than sending plaintext
+  if (!key) return;
+
+  const data = new Uint8Array(frame.data);
+  const clearBytes = Math.min(getClearBytes(frame), data.byteLength);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: data.subarray(0, clearBytes) },
+    key,
+    data.subarray(clearBytes)
+  );
+
+  const output = new Uint8Array(clearBytes + ciphertext.byteLength + IV_LENGTH);
+  output.set(data.subarray(0, clearBytes));
+  output.set(new Uint8Array(ciphertext), clearBytes);
+  output.set(iv, clearBytes + ciphertext.byteLength);
+  frame.data = output.buffer;
+  controller.enqueue(frame);
+};
+
+const decryptFrame = async (
+  frame: EncodedFrame,
+  controller: TransformStreamDefaultController<EncodedFrame>,
+  id: string
+) => {
+  if (!key) return;
+
+  const data = new Uint8Array(frame.data);
+  const clearBytes = getClearBytes(frame);
+  if (data.byteLength < clearBytes + TAG_LENGTH + IV_LENGTH) {
+    reportDecryption(id, false);
+    return;
+  }
+
+  try {
+    const ivStart = data.byteLength - IV_LENGTH;
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: "AES-GCM",
+        iv: data.subarray(ivStart),
+        additionalData: data.subarray(0, clearBytes),
+      },
+      key,
+      data.subarray(clearBytes, ivStart)
+    );
+
+    const output = new Uint8Array(clearBytes + plaintext.byteLength);
+    output.set(data.subarray(0, clearBytes));
+    output.set(new Uint8Array(plaintext), clearBytes);
+    frame.data = output.buffer;
+    controller.enqueue(frame);
+    reportDecryption(id, true);
+  } catch {
+    // Wrong key or an unencrypted sender; dropping beats feeding the decoder garbage
+    reportDecryption(id, false);
+  }
+};
+
+const pipe = (
+  readable: ReadableStream,
+  writable: WritableStream,
+  { operation, id }: E2EETransformOptions
+) => {
+  const transform = new TransformStream<EncodedFrame, EncodedFrame>({
+    transform: (frame, controller) =>
+      operation === "encrypt"
+        ? encryptFrame(frame, controller)
+        : decryptFrame(frame, controller, id),
+  });
+
+  readable
+    .pipeThrough(transform)
+    .pipeTo(writable)
+    .catch((err) => console.error(`E2EE ${operation} ${id} stopped:`, err))
+    .finally(() => failing.delete(id));
+};
+
+scope.onmessage = ({ data }) => {
+  if (data.type === "setKey") {
+    key = data.key;
+  } else if (data.type === "transform") {
+    pipe(data.readable, data.writable, data);
+  }
+};
+
+scope.onrtctransform = ({ transformer }) => {
+  pipe(transformer.readable, transformer.writable, transformer.options);
+};
@@ -0,0 +1,23 @@
+// A secret minted when a room is created. The first peer to present it is
+// made host, and presenting it again after a reload gets the role back.
+
+const STORAGE_PREFIX = "baithak-host:";
+
+export const createHostKey = (roomId: string) => {
+  const key = crypto.randomUUID();
+  try {
+    localStorage.setItem(STORAGE_PREFIX + roomId, key);
+  } catch (err) {
+    // Storage can be off (private mode); the room just starts without a host
+    console.warn("Couldn't save host key:", err);
+  }
+  return key;
+};
+
+export const getHostKey = (roomId: string) => {
+  try {
+    return localStorage.getItem(STORAGE_PREFIX + roomId) ?? undefined;
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,87 @@
+// How someone likes a room's video laid out, remembered per room in this
+// browser
+
+export interface LayoutPreferences {
+  // Participant names in the order they were dragged into, with "#2" and
+  // so on for repeated names. Names rather than IDs, since IDs change
+  // every time someone joins.
+  tileOrder: string[];
+  // Smallest grid tile width in pixels, null to fit the room size
+  tileWidth: number | null;
+  hideNonVideo: boolean;
+  hideSelfView: boolean;
+  maxTilesPerPage: number;
+}
+
+const STORAGE_PREFIX = "baithak-layout:";
+
+export const TILE_WIDTH_RANGE = { min: 160, max: 480, step: 20 };
+
+// Grid tiles per page, counting the "+N others" tile
+export const TILES_PER_PAGE_OPTIONS = [9, 16, 25, 49];
+
+export const DEFAULT_LAYOUT_PREFERENCES: LayoutPreferences = {
+  tileOrder: [],
+  tileWidth: null,
+  hideNonVideo: false,
+  hideSelfView: false,
+  maxTilesPerPage: TILES_PER_PAGE_OPTIONS[1],
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+// Widths outside the slider are pulled back onto it; NaN isn't a width
+const clampTileWidth = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value)
+    ? Math.min(TILE_WIDTH_RANGE.max, Math.max(TILE_WIDTH_RANGE.min, value))
+    : null;
+
+const isTilesPerPage = (value: unknown): value is number =>
+  TILES_PER_PAGE_OPTIONS.includes(value as number);
+
+export const loadLayoutPreferences = (roomId: string): LayoutPreferences => {
+  try {
+    const stored: unknown = JSON.parse(
+      localStorage.getItem(STORAGE_PREFIX + roomId) ?? "null"
+    );
+    if (typeof stored !== "object" || stored === null) {
+      return DEFAULT_LAYOUT_PREFERENCES;
+    }
+
+    // Older or hand-edited entries fall back field by field
+    const prefs = stored as Record<string, unknown>;
+    const defaults = DEFAULT_LAYOUT_PREFERENCES;
+    return {
+      tileOrder: isStringArray(prefs.tileOrder)
+        ? prefs.tileOrder
+        : defaults.tileOrder,
+      tileWidth: clampTileWidth(prefs.tileWidth),
+      hideNonVideo:
+        typeof prefs.hideNonVideo === "boolean"
+          ? prefs.hideNonVideo
+          : defaults.hideNonVideo,
+      hideSelfView:
+        typeof prefs.hideSelfView === "boolean"
+          ? prefs.hideSelfView
+          : defaults.hideSelfView,
+      maxTilesPerPage: isTilesPerPage(prefs.maxTilesPerPage)
+        ? prefs.maxTilesPerPage
+        : defaults.maxTilesPerPage,
+    };
+  } catch {
+    return DEFAULT_LAYOUT_PREFERENCES;
+  }
+};
+
+export const saveLayoutPreferences = (
+  roomId: string,
+  prefs: LayoutPreferences
+) => {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + roomId, JSON.stringify(prefs));
+  } catch (err) {
+    // Storage can be off (private mode); the layout just isn't remembered
+    console.warn("Couldn't save layout preferences:", err);
+  }
+};
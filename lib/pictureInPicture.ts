@@ -0,0 +1,94 @@
+// Floating the call above other tabs. The Document Picture-in-Picture API
+// (Chromium) can hold our own UI; elsewhere only a single video can float.
+
+interface DocumentPictureInPicture extends EventTarget {
+  readonly window: Window | null;
+  requestWindow(options?: { width?: number; height?: number }): Promise<Window>;
+}
+
+declare global {
+  interface Window {
+    documentPictureInPicture?: DocumentPictureInPicture;
+  }
+}
+
+const CALL_WINDOW_SIZE = { width: 360, height: 320 };
+
+export const isDocumentPictureInPictureSupported = () =>
+  typeof window !== "undefined" && !!window.documentPictureInPicture;
+
+export const isVideoPictureInPictureSupported = () =>
+  typeof document !== "undefined" && !!document.pictureInPictureEnabled;
+
+// The window starts out blank, so the page's styles are copied across
+const copyStyles = (target: Document) => {
+  for (const sheet of Array.from(document.styleSheets)) {
+    try {
+      const style = target.createElement("style");
+      style.textContent = Array.from(sheet.cssRules)
+        .map((rule) => rule.cssText)
+        .join("\n");
+      target.head.appendChild(style);
+    } catch {
+      // Cross-origin sheets can't be read, only linked again
+      if (!sheet.href) continue;
+      const link = target.createElement("link");
+      link.rel = "stylesheet";
+      link.href = sheet.href;
+      target.head.appendChild(link);
+    }
+  }
+  // Fonts are set up through classes on these
+  target.documentElement.className = document.documentElement.className;
+  target.body.className = document.body.className;
+};
+
+// A styled, empty window to portal the call into. Needs a user gesture.
+export const openCallWindow = async () => {
+  const pipWindow = await window.documentPictureInPicture!.requestWindow(
+    CALL_WINDOW_SIZE
+  );
+  pipWindow.document.title = document.title;
+  copyStyles(pipWindow.document);
+  return pipWindow;
+};
+
+// Floats a single video track; the element is removed again by the caller.
+// Safari only floats videos that are in the document.
+export const openVideoWindow = async (track: MediaStreamTrack) => {
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = new MediaStream([track]);
+  video.className = "fixed w-px h-px opacity-0 pointer-events-none";
+  document.body.appendChild(video);
+
+  try {
+    await video.play();
+    await video.requestPictureInPicture();
+  } catch (err) {
+    video.remove();
+    throw err;
+  }
+  return video;
+};
+
+// Chromium opens the window by itself when a call's tab is switched away
+// from, as long as this action is handled. Returns whether it's supported.
+export const setAutoPictureInPictureHandler = (
+  handler: (() => void) | null
+) => {
+  if (typeof navigator === "undefined" || !navigator.mediaSession) {
+    return false;
+  }
+  try {
+    navigator.mediaSession.setActionHandler(
+      "enterpictureinpicture" as MediaSessionAction,
+      handler
+    );
+    return true;
+  } catch {
+    // Unknown actions throw
+    return false;
+  }
+};
@@ -0,0 +1,40 @@
+import { io } from "socket.io-client";
+import { createSignalingClient, RoomCredentials } from "./signaling";
+import { getHostKey } from "./hostKey";
+
+// Room IDs are short and guessable, so a room can also have a password.
+// Hosts hand out invite links instead, signed and counted by the server.
+
+export const INVITE_PARAM = "invite";
+
+// Asks the server on a throwaway socket, before any media is set up
+export const checkRoomAccess = async (
+  url: string,
+  roomId: string,
+  credentials: RoomCredentials
+) => {
+  const socket = io(url, { reconnection: false });
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      socket.once("connect", () => resolve());
+      socket.once("connect_error", reject);
+    });
+
+    return await createSignalingClient(socket).request("checkAccess", {
+      ...credentials,
+      roomId,
+      hostKey: getHostKey(roomId),
+    });
+  } finally {
+    socket.disconnect();
+  }
+};
+
+// The room link to share, with our own invite (if any) left off
+export const withInvite = (url: string, invite?: string) => {
+  const link = new URL(url);
+  link.search = "";
+  if (invite) link.searchParams.set(INVITE_PARAM, invite);
+  return link.toString();
+};
@@ -0,0 +1,154 @@
+import {
+  isRoomEventPayload,
+  RoomEvents,
+  RoomEventType,
+  SignalingClient,
+} from "./signaling";
+
+export type { RoomEvents, RoomEventType } from "./signaling";
+
+export type ReceivedRoomEvent<E extends RoomEventType> = RoomEvents[E] & {
+  sender: string;
+  senderName: string;
+  eventId?: string;
+};
+
+type RoomEventHandler<E extends RoomEventType> = (
+  event: ReceivedRoomEvent<E>
+) => void;
+
+export interface RoomMessenger {
+  send<E extends RoomEventType>(type: E, data: RoomEvents[E]): void;
+  on<E extends RoomEventType>(
+    type: E,
+    handler: RoomEventHandler<E>
+  ): () => void;
+}
+
+// The part of a mediasoup DataProducer the messenger writes to
+export interface RoomEventChannel {
+  readyState: RTCDataChannelState;
+  send(data: string): void;
+}
+
+export interface DataChannelMessenger extends RoomMessenger {
+  // Our data channel, or null to go back to the socket
+  setChannel(channel: RoomEventChannel | null): void;
+  // Feed in a raw message from another peer's data channel
+  receive(sender: string, data: unknown): void;
+  // Breakouts move us to another room on the same socket
+  setRoomId(roomId: string): void;
+}
+
+interface RoomMessengerOptions {
+  signaling: SignalingClient;
+  roomId: string;
+  userName: string;
+}
+
+// How each event travels through the server when it can't go peer to peer
+const SOCKET_EVENTS: {
+  [E in RoomEventType]: {
+    send(
+      signaling: SignalingClient,
+      roomId: string,
+      data: RoomEvents[E] & { eventId: string },
+      viaDataChannel: boolean
+    ): void;
+    listen(
+      signaling: SignalingClient,
+      handler: RoomEventHandler<E>
+    ): () => void;
+  };
+} = {
+  message: {
+    send: (signaling, roomId, data, viaDataChannel) =>
+      signaling.emit("send-message", { roomId, ...data, viaDataChannel }),
+    listen: (signaling, handler) => signaling.on("receive-message", handler),
+  },
+  reaction: {
+    send: (signaling, roomId, data, viaDataChannel) =>
+      signaling.emit("send-reaction", { roomId, ...data, viaDataChannel }),
+    listen: (signaling, handler) => signaling.on("receive-reaction", handler),
+  },
+};
+
+// Ids remembered per listener, enough to outlast the slower path
+const SEEN_EVENT_LIMIT = 200;
+
+/**
+ * Chat, reactions and other room events. They are written to our data
+ * channel while it is open, and always go through the socket too, so peers
+ * that can't read the channel (no SCTP, or a failed data consumer) still
+ * get them. The server may skip those that have it; either way events are
+ * delivered from both paths, with repeats of the same id dropped.
+ */
+export function createRoomMessenger({
+  signaling,
+  roomId,
+  userName,
+}: RoomMessengerOptions): DataChannelMessenger {
+  let currentRoomId = roomId;
+  const handlers = new Map<RoomEventType, Set<(event: unknown) => void>>();
+  let channel: RoomEventChannel | null = null;
+
+  return {
+    send(type, data) {
+      const event = { ...data, eventId: crypto.randomUUID() };
+      const viaDataChannel = channel?.readyState === "open";
+      if (viaDataChannel) {
+        channel!.send(JSON.stringify({ ...event, type, senderName: userName }));
+      }
+      SOCKET_EVENTS[type].send(signaling, currentRoomId, event, viaDataChannel);
+    },
+
+    on(type, handler) {
+      const seen = new Set<string>();
+      const deduped: typeof handler = (event) => {
+        if (event.eventId) {
+          const key = `${event.sender}:${event.eventId}`;
+          if (seen.has(key)) return;
+          seen.add(key);
+          if (seen.size > SEEN_EVENT_LIMIT) {
+            seen.delete(seen.values().next().value!);
+          }
+        }
+        handler(event);
+      };
+
+      const listener = deduped as (event: unknown) => void;
+      if (!handlers.has(type)) handlers.set(type, new Set());
+      handlers.get(type)!.add(listener);
+      const unsubscribe = SOCKET_EVENTS[type].listen(signaling, deduped);
+
+      return () => {
+        handlers.get(type)?.delete(listener);
+        unsubscribe();
+      };
+    },
+
+    setChannel(next) {
+      channel = next;
+    },
+
+    setRoomId(next) {
+      currentRoomId = next;
+    },
+
+    receive(sender, data) {
+      let payload: unknown;
+      try {
+        payload = typeof data === "string" ? JSON.parse(data) : null;
+      } catch {
+        payload = null;
+      }
+      if (!isRoomEventPayload(payload)) {
+        console.warn(`Ignoring malformed room event from ${sender}:`, data);
+        return;
+      }
+
+      const { type, ...event } = payload;
+      handlers.get(type)?.forEach((handler) => handler({ ...event, sender }));
+    },
+  };
+}
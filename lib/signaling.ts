@@ -0,0 +1,771 @@
+import type { Socket } from "socket.io-client";
+import type { types as mediasoupTypes } from "mediasoup-client";
+
+// What a producer carries, tagged through mediasoup appData
+export type ProducerSource = "mic" | "camera" | "screen" | "screenAudio";
+
+export interface ProducerInfo {
+  producerId: string;
+  peerId: string;
+  peerName: string;
+  kind: "audio" | "video";
+  appData?: { source?: ProducerSource };
+}
+
+// A peer's channel for room events (chat, reactions) over SCTP
+export interface DataProducerInfo {
+  dataProducerId: string;
+  peerId: string;
+}
+
+export interface TransportParams {
+  id: string;
+  iceParameters: mediasoupTypes.IceParameters;
+  iceCandidates: mediasoupTypes.IceCandidate[];
+  dtlsParameters: mediasoupTypes.DtlsParameters;
+  // Only present when the server enabled SCTP for data channels
+  sctpParameters?: mediasoupTypes.SctpParameters;
+}
+
+type Empty = Record<string, never>;
+
+// What gets a guest into a room with a password: the password itself or
+// an invite link the host minted
+export interface RoomCredentials {
+  invite?: string;
+  password?: string;
+}
+
+export type InviteStatus = "valid" | "expired" | "used-up" | "invalid";
+
+// Someone in the waiting room, as the host sees them
+export interface WaitingPeer {
+  id: string;
+  name: string;
+}
+
+// Why the server took us out of a room
+export type RemovalReason = "removed" | "ended";
+
+// A side room split off a main room, with its own peers and producers
+export interface BreakoutRoom {
+  id: string;
+  name: string;
+  peers: { id: string; name: string }[];
+}
+
+export interface BreakoutState {
+  rooms: BreakoutRoom[];
+  // When everyone is brought back to the main room, in epoch milliseconds
+  endsAt: number | null;
+}
+
+// Offer/answer or ICE candidate relayed between two mesh peers
+export interface MeshSignal {
+  description?: RTCSessionDescriptionInit;
+  candidate?: RTCIceCandidateInit | null;
+}
+
+// Ephemeral events peers send each other, over a data channel when there
+// is one and relayed by the server otherwise
+export interface RoomEvents {
+  message: { message: string; timestamp: number };
+  reaction: { reaction: string };
+}
+
+export type RoomEventType = keyof RoomEvents;
+
+// A room event as written to a data channel. The id is the same on the
+// socket copy, so whoever gets both can drop one.
+export type RoomEventPayload = {
+  [E in RoomEventType]: RoomEvents[E] & {
+    type: E;
+    senderName: string;
+    eventId?: string;
+  };
+}[RoomEventType];
+
+// Acknowledged requests: what we send and what the server answers with
+export interface SignalingRequests {
+  // Answered before anything is shown, so guests know what to enter
+  checkAccess: {
+    request: RoomCredentials & { roomId: string; hostKey?: string };
+    response: {
+      granted: boolean;
+      requiresPassword: boolean;
+      invite?: InviteStatus;
+    };
+  };
+  // Asked before joinRoom. Rooms with a waiting room hold everyone but the
+  // host until admitted; the ticket lets an admitted peer back in after a
+  // reconnect without knocking again.
+  knock: {
+    request: RoomCredentials & {
+      roomId: string;
+      userName: string;
+      hostKey?: string;
+      ticket?: string;
+    };
+    response: { status: "admitted" | "waiting"; ticket?: string };
+  };
+  getRouterRtpCapabilities: {
+    request: { roomId: string };
+    response: { rtpCapabilities: mediasoupTypes.RtpCapabilities };
+  };
+  joinRoom: {
+    // hostKey proves we created the room, see lib/hostKey
+    request: { roomId: string; userName: string; hostKey?: string };
+    response: {
+      // joinedAt is milliseconds since the epoch, on the server's clock
+      peers: { id: string; name: string; joinedAt?: number }[];
+      existingProducers: ProducerInfo[];
+      existingDataProducers?: DataProducerInfo[];
+      hostId: string | null;
+      isLocked: boolean;
+      hasWaitingRoom: boolean;
+      hasPassword: boolean;
+      raisedHands: string[];
+      breakouts: BreakoutState;
+      // Peer IDs the host put in everyone's main view
+      spotlight: string[];
+    };
+  };
+  createWebRtcTransport: {
+    request: {
+      roomId: string;
+      direction: "send" | "recv";
+      sctpCapabilities?: mediasoupTypes.SctpCapabilities;
+    };
+    response: TransportParams;
+  };
+  connectTransport: {
+    request: {
+      roomId: string;
+      transportId: string;
+      dtlsParameters: mediasoupTypes.DtlsParameters;
+    };
+    response: Empty;
+  };
+  restartIce: {
+    request: { roomId: string; transportId: string };
+    response: { iceParameters: mediasoupTypes.IceParameters };
+  };
+  produce: {
+    request: {
+      roomId: string;
+      transportId: string;
+      kind: mediasoupTypes.MediaKind;
+      rtpParameters: mediasoupTypes.RtpParameters;
+      appData: mediasoupTypes.AppData;
+    };
+    response: { id: string };
+  };
+  produceData: {
+    request: {
+      roomId: string;
+      transportId: string;
+      sctpStreamParameters: mediasoupTypes.SctpStreamParameters;
+      label?: string;
+      protocol?: string;
+      appData: mediasoupTypes.AppData;
+    };
+    response: { id: string };
+  };
+  consumeData: {
+    request: { roomId: string; transportId: string; dataProducerId: string };
+    response: {
+      id: string;
+      dataProducerId: string;
+      sctpStreamParameters: mediasoupTypes.SctpStreamParameters;
+      label?: string;
+      protocol?: string;
+    };
+  };
+  // For a data consumer that couldn't be set up on our side, so the server
+  // relays that peer's room events to us over the socket instead
+  closeDataConsumer: {
+    request: { roomId: string; dataConsumerId: string };
+    response: Empty;
+  };
+  pauseProducer: {
+    request: { roomId: string; producerId: string };
+    response: Empty;
+  };
+  resumeProducer: {
+    request: { roomId: string; producerId: string };
+    response: Empty;
+  };
+  closeProducer: {
+    request: { roomId: string; producerId: string };
+    response: Empty;
+  };
+  consume: {
+    request: {
+      roomId: string;
+      transportId: string;
+      producerId: string;
+      rtpCapabilities: mediasoupTypes.RtpCapabilities;
+    };
+    response: {
+      id: string;
+      producerId: string;
+      kind: "audio" | "video";
+      rtpParameters: mediasoupTypes.RtpParameters;
+      producerPeerId: string;
+    };
+  };
+  pauseConsumer: {
+    request: { roomId: string; consumerId: string };
+    response: Empty;
+  };
+  resumeConsumer: {
+    request: { roomId: string; consumerId: string };
+    response: Empty;
+  };
+  setConsumerPreferredLayers: {
+    request: {
+      roomId: string;
+      consumerId: string;
+      spatialLayer: number;
+      temporalLayer: number;
+    };
+    response: Empty;
+  };
+  // Anyone can lower their own hand; lowering someone else's is host only
+  raiseHand: {
+    request: { roomId: string };
+    response: Empty;
+  };
+  lowerHand: {
+    request: { roomId: string; peerId?: string };
+    response: Empty;
+  };
+  // Host only; the server rejects these from anyone else
+  muteParticipant: {
+    request: { roomId: string; peerId: string; kind: "audio" | "video" };
+    response: Empty;
+  };
+  removeParticipant: {
+    request: { roomId: string; peerId: string };
+    response: Empty;
+  };
+  transferHost: {
+    request: { roomId: string; peerId: string };
+    response: Empty;
+  };
+  lockRoom: {
+    request: { roomId: string; locked: boolean };
+    response: Empty;
+  };
+  endRoom: {
+    request: { roomId: string };
+    response: Empty;
+  };
+  setWaitingRoom: {
+    request: { roomId: string; enabled: boolean };
+    response: Empty;
+  };
+  admitPeer: {
+    request: { roomId: string; peerId: string };
+    response: Empty;
+  };
+  denyPeer: {
+    request: { roomId: string; peerId: string };
+    response: Empty;
+  };
+  admitAll: {
+    request: { roomId: string };
+    response: Empty;
+  };
+  // An empty list ends the spotlight
+  setSpotlight: {
+    request: { roomId: string; peerIds: string[] };
+    response: Empty;
+  };
+  // Lowers the first hand in the queue and tells its owner
+  callOnNext: {
+    request: { roomId: string };
+    response: { peerId: string | null };
+  };
+  // Breakouts are managed through the main room's ID. Duration and
+  // countdown are in seconds.
+  openBreakouts: {
+    request: {
+      roomId: string;
+      rooms: { name: string; peerIds: string[] }[];
+      duration: number | null;
+    };
+    response: Empty;
+  };
+  // A null breakoutId sends the peer back to the main room
+  moveToBreakout: {
+    request: { roomId: string; peerId: string; breakoutId: string | null };
+    response: Empty;
+  };
+  closeBreakouts: {
+    request: { roomId: string; countdown: number };
+    response: Empty;
+  };
+  broadcastToBreakouts: {
+    request: { roomId: string; message: string };
+    response: Empty;
+  };
+  // Anyone in a breakout can go back on their own
+  returnToMain: {
+    request: { roomId: string };
+    response: Empty;
+  };
+  // null clears the password
+  setRoomPassword: {
+    request: { roomId: string; password: string | null };
+    response: Empty;
+  };
+  // Signed by the server, which also counts uses. Expiry in seconds.
+  createInvite: {
+    request: { roomId: string; expiresIn: number; maxUses: number | null };
+    response: { token: string; expiresAt: number };
+  };
+  // Mesh rooms: the server only tracks membership and relays signals.
+  // Once a room is promoted it stays on the SFU for everyone who joins.
+  joinMesh: {
+    request: { roomId: string; userName: string };
+    response: { peers: { id: string; name: string }[]; promoted: boolean };
+  };
+}
+
+// Fire-and-forget messages to the server
+// Room events also written to our data channel are flagged, and relayed
+// only to peers without a data consumer for it
+export interface ClientEvents {
+  leaveRoom: { roomId: string };
+  "send-message": {
+    roomId: string;
+    eventId: string;
+    message: string;
+    timestamp: number;
+    viaDataChannel?: boolean;
+  };
+  "send-reaction": {
+    roomId: string;
+    eventId: string;
+    reaction: string;
+    viaDataChannel?: boolean;
+  };
+  leaveMesh: { roomId: string };
+  meshSignal: MeshSignal & { roomId: string; to: string };
+  promoteRoom: { roomId: string };
+}
+
+// Messages pushed by the server
+export interface ServerEvents {
+  newPeer: { peerId: string; peerName: string; joinedAt?: number };
+  peerLeft: { peerId: string };
+  newProducer: ProducerInfo;
+  producerPaused: { producerId: string; peerId: string };
+  producerResumed: { producerId: string; peerId: string };
+  producerClosed: { producerId: string; peerId: string };
+  consumerClosed: { consumerId: string };
+  newDataProducer: DataProducerInfo;
+  dataConsumerClosed: { dataConsumerId: string };
+  activeSpeaker: { peerId: string | null };
+  hostChanged: { hostId: string | null };
+  roomLockChanged: { isLocked: boolean };
+  mutedByHost: { kind: "audio" | "video" };
+  removedFromRoom: { reason: RemovalReason };
+  waitingRoomChanged: { enabled: boolean };
+  roomPasswordChanged: { hasPassword: boolean };
+  // To the host only, the whole queue whenever it changes
+  waitingPeersChanged: { peers: WaitingPeer[] };
+  // To a waiting peer, once the host decides
+  admission: { admitted: boolean; ticket?: string };
+  // Peer IDs, in the order the hands went up
+  handsChanged: { raisedHands: string[] };
+  // To the peer the host called on
+  calledOn: Empty;
+  spotlightChanged: { peerIds: string[] };
+  // To everyone in the main room and its breakouts
+  breakoutsChanged: BreakoutState;
+  // Move to this room, which may be the main room
+  breakoutAssigned: { roomId: string };
+  breakoutBroadcast: { message: string; senderName: string };
+  "receive-message": {
+    sender: string;
+    senderName: string;
+    eventId?: string;
+    message: string;
+    timestamp: number;
+  };
+  "receive-reaction": {
+    sender: string;
+    senderName: string;
+    eventId?: string;
+    reaction: string;
+  };
+  meshPeerJoined: { peerId: string; peerName: string };
+  meshPeerLeft: { peerId: string };
+  meshSignal: MeshSignal & { from: string };
+  roomPromoted: { roomId: string };
+}
+
+export type SignalingRequest = keyof SignalingRequests;
+export type RequestData<E extends SignalingRequest> =
+  SignalingRequests[E]["request"];
+export type ResponseData<E extends SignalingRequest> =
+  SignalingRequests[E]["response"];
+
+export type SignalingErrorCode =
+  | "timeout"
+  | "disconnected"
+  | "server"
+  | "invalid-response";
+
+export class SignalingError extends Error {
+  constructor(
+    public readonly event: string,
+    public readonly code: SignalingErrorCode,
+    public readonly detail: string
+  ) {
+    super(`${event}: ${detail}`);
+    this.name = "SignalingError";
+  }
+}
+
+// What the server answers when the host has locked the room, or when our
+// password or invite stopped working between checking and knocking
+const ROOM_LOCKED = "Room is locked";
+const ACCESS_DENIED = "Access denied";
+
+const isServerError = (err: unknown, detail: string) =>
+  err instanceof SignalingError &&
+  err.code === "server" &&
+  err.detail === detail;
+
+export const isRoomLockedError = (err: unknown) =>
+  isServerError(err, ROOM_LOCKED);
+
+export const isAccessDeniedError = (err: unknown) =>
+  isServerError(err, ACCESS_DENIED);
+
+export interface RequestOptions {
+  timeout?: number;
+  retries?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const RETRY_BASE_DELAY_MS = 500;
+
+// Requests the server can safely see twice if an ack was lost
+const RETRIES: Partial<Record<SignalingRequest, number>> = {
+  checkAccess: 2,
+  knock: 2,
+  getRouterRtpCapabilities: 2,
+  restartIce: 2,
+  pauseProducer: 2,
+  resumeProducer: 2,
+  closeProducer: 2,
+  pauseConsumer: 2,
+  resumeConsumer: 2,
+  setConsumerPreferredLayers: 2,
+};
+
+// Runtime payload checks. These only guard the fields we read, so a
+// server adding fields never breaks the client.
+type Check = (value: unknown) => boolean;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+const isString: Check = (value) => typeof value === "string";
+const isNumber: Check = (value) => typeof value === "number";
+const isArray: Check = (value) => Array.isArray(value);
+const isKind: Check = (value) => value === "audio" || value === "video";
+const isNullableString: Check = (value) => value === null || isString(value);
+const isBoolean: Check = (value) => typeof value === "boolean";
+const any: Check = () => true;
+
+const shape =
+  (fields: Record<string, Check>): Check =>
+  (value) =>
+    isRecord(value) &&
+    Object.entries(fields).every(([key, check]) => check(value[key]));
+
+const optional =
+  (check: Check): Check =>
+  (value) =>
+    value === undefined || check(value);
+
+const arrayOf =
+  (check: Check): Check =>
+  (value) =>
+    Array.isArray(value) && value.every(check);
+
+const isProducerInfo = shape({
+  producerId: isString,
+  peerId: isString,
+  peerName: isString,
+  kind: isKind,
+});
+
+const isDataProducerInfo = shape({
+  dataProducerId: isString,
+  peerId: isString,
+});
+
+const isTransportParams = shape({
+  id: isString,
+  iceParameters: isRecord,
+  iceCandidates: isArray,
+  dtlsParameters: isRecord,
+});
+
+const isWaitingPeer = shape({ id: isString, name: isString });
+
+const isBreakoutRoom = shape({
+  id: isString,
+  name: isString,
+  peers: arrayOf(isWaitingPeer),
+});
+
+const isBreakoutState = shape({
+  rooms: arrayOf(isBreakoutRoom),
+  endsAt: (value) => value === null || isNumber(value),
+});
+
+const INVITE_STATUSES: unknown[] = ["valid", "expired", "used-up", "invalid"];
+
+const RESPONSE_CHECKS: Record<SignalingRequest, Check> = {
+  checkAccess: shape({
+    granted: isBoolean,
+    requiresPassword: isBoolean,
+    invite: optional((value) => INVITE_STATUSES.includes(value)),
+  }),
+  knock: shape({
+    status: (value) => value === "admitted" || value === "waiting",
+    ticket: optional(isString),
+  }),
+  getRouterRtpCapabilities: shape({ rtpCapabilities: isRecord }),
+  joinRoom: shape({
+    peers: arrayOf(
+      shape({ id: isString, name: isString, joinedAt: optional(isNumber) })
+    ),
+    existingProducers: arrayOf(isProducerInfo),
+    existingDataProducers: optional(arrayOf(isDataProducerInfo)),
+    hostId: isNullableString,
+    isLocked: isBoolean,
+    hasWaitingRoom: isBoolean,
+    hasPassword: isBoolean,
+    raisedHands: arrayOf(isString),
+    breakouts: isBreakoutState,
+    spotlight: arrayOf(isString),
+  }),
+  createWebRtcTransport: isTransportParams,
+  connectTransport: any,
+  restartIce: shape({ iceParameters: isRecord }),
+  produce: shape({ id: isString }),
+  produceData: shape({ id: isString }),
+  consumeData: shape({
+    id: isString,
+    dataProducerId: isString,
+    sctpStreamParameters: isRecord,
+  }),
+  closeDataConsumer: any,
+  pauseProducer: any,
+  resumeProducer: any,
+  closeProducer: any,
+  consume: shape({
+    id: isString,
+    producerId: isString,
+    kind: isKind,
+    rtpParameters: isRecord,
+  }),
+  pauseConsumer: any,
+  resumeConsumer: any,
+  setConsumerPreferredLayers: any,
+  muteParticipant: any,
+  removeParticipant: any,
+  transferHost: any,
+  lockRoom: any,
+  endRoom: any,
+  setWaitingRoom: any,
+  admitPeer: any,
+  denyPeer: any,
+  admitAll: any,
+  raiseHand: any,
+  lowerHand: any,
+  callOnNext: shape({ peerId: isNullableString }),
+  setSpotlight: any,
+  openBreakouts: any,
+  moveToBreakout: any,
+  closeBreakouts: any,
+  broadcastToBreakouts: any,
+  returnToMain: any,
+  setRoomPassword: any,
+  createInvite: shape({ token: isString, expiresAt: isNumber }),
+  joinMesh: shape({
+    peers: arrayOf(shape({ id: isString, name: isString })),
+    promoted: isBoolean,
+  }),
+};
+
+const EVENT_CHECKS: Record<keyof ServerEvents, Check> = {
+  newPeer: shape({
+    peerId: isString,
+    peerName: isString,
+    joinedAt: optional(isNumber),
+  }),
+  peerLeft: shape({ peerId: isString }),
+  newProducer: isProducerInfo,
+  producerPaused: shape({ producerId: isString, peerId: isString }),
+  producerResumed: shape({ producerId: isString, peerId: isString }),
+  producerClosed: shape({ producerId: isString }),
+  consumerClosed: shape({ consumerId: isString }),
+  newDataProducer: isDataProducerInfo,
+  dataConsumerClosed: shape({ dataConsumerId: isString }),
+  activeSpeaker: shape({ peerId: isNullableString }),
+  hostChanged: shape({ hostId: isNullableString }),
+  roomLockChanged: shape({ isLocked: isBoolean }),
+  mutedByHost: shape({ kind: isKind }),
+  removedFromRoom: shape({
+    reason: (value) => value === "removed" || value === "ended",
+  }),
+  waitingRoomChanged: shape({ enabled: isBoolean }),
+  roomPasswordChanged: shape({ hasPassword: isBoolean }),
+  waitingPeersChanged: shape({ peers: arrayOf(isWaitingPeer) }),
+  admission: shape({ admitted: isBoolean, ticket: optional(isString) }),
+  handsChanged: shape({ raisedHands: arrayOf(isString) }),
+  calledOn: any,
+  spotlightChanged: shape({ peerIds: arrayOf(isString) }),
+  breakoutsChanged: isBreakoutState,
+  breakoutAssigned: shape({ roomId: isString }),
+  breakoutBroadcast: shape({ message: isString, senderName: isString }),
+  "receive-message": shape({
+    sender: isString,
+    senderName: isString,
+    eventId: optional(isString),
+    message: isString,
+    timestamp: isNumber,
+  }),
+  "receive-reaction": shape({
+    sender: isString,
+    senderName: isString,
+    eventId: optional(isString),
+    reaction: isString,
+  }),
+  meshPeerJoined: shape({ peerId: isString, peerName: isString }),
+  meshPeerLeft: shape({ peerId: isString }),
+  meshSignal: shape({
+    from: isString,
+    description: optional(isRecord),
+    candidate: optional((value) => value === null || isRecord(value)),
+  }),
+  roomPromoted: shape({ roomId: isString }),
+};
+
+const ROOM_EVENT_CHECKS: Record<RoomEventType, Check> = {
+  message: shape({ message: isString, timestamp: isNumber }),
+  reaction: shape({ reaction: isString }),
+};
+
+// Data channel payloads come straight from other peers, so they get the
+// same scrutiny as server events
+export const isRoomEventPayload = (value: unknown): value is RoomEventPayload =>
+  isRecord(value) &&
+  isString(value.senderName) &&
+  optional(isString)(value.eventId) &&
+  typeof value.type === "string" &&
+  Object.prototype.hasOwnProperty.call(ROOM_EVENT_CHECKS, value.type) &&
+  ROOM_EVENT_CHECKS[value.type as RoomEventType](value);
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export interface SignalingClient {
+  socket: Socket;
+  request<E extends SignalingRequest>(
+    event: E,
+    data: RequestData<E>,
+    options?: RequestOptions
+  ): Promise<ResponseData<E>>;
+  emit<E extends keyof ClientEvents>(event: E, data: ClientEvents[E]): void;
+  on<E extends keyof ServerEvents>(
+    event: E,
+    handler: (data: ServerEvents[E]) => void
+  ): () => void;
+}
+
+/**
+ * Typed wrapper around the signaling socket. Requests time out instead of
+ * hanging on a lost ack, idempotent ones are retried, and every response
+ * and server event is checked before it reaches the caller.
+ */
+export function createSignalingClient(socket: Socket): SignalingClient {
+  const requestOnce = <E extends SignalingRequest>(
+    event: E,
+    data: RequestData<E>,
+    timeout: number
+  ) =>
+    new Promise<ResponseData<E>>((resolve, reject) => {
+      if (!socket.connected) {
+        reject(
+          new SignalingError(event, "disconnected", "Socket not connected")
+        );
+        return;
+      }
+
+      socket
+        .timeout(timeout)
+        .emit(event, data, (err: Error | null, response: unknown) => {
+          if (err) {
+            reject(new SignalingError(event, "timeout", "No response"));
+          } else if (isRecord(response) && isString(response.error)) {
+            reject(
+              new SignalingError(event, "server", response.error as string)
+            );
+          } else if (!RESPONSE_CHECKS[event](response ?? {})) {
+            reject(
+              new SignalingError(event, "invalid-response", "Bad payload")
+            );
+          } else {
+            resolve((response ?? {}) as ResponseData<E>);
+          }
+        });
+    });
+
+  return {
+    socket,
+
+    async request(event, data, options = {}) {
+      const timeout = options.timeout ?? DEFAULT_TIMEOUT_MS;
+      const retries = options.retries ?? RETRIES[event] ?? 0;
+
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await requestOnce(event, data, timeout);
+        } catch (err) {
+          // Server errors are answers; only lost messages are worth repeating
+          const isTransient =
+            err instanceof SignalingError &&
+            (err.code === "timeout" || err.code === "disconnected");
+          if (!isTransient || attempt >= retries) throw err;
+          await wait(RETRY_BASE_DELAY_MS * 2 ** attempt);
+        }
+      }
+    },
+
+    emit(event, data) {
+      socket.emit(event, data);
+    },
+
+    on(event, handler) {
+      const listener = (data: unknown) => {
+        if (!EVENT_CHECKS[event](data)) {
+          console.warn(`Ignoring malformed ${event} event:`, data);
+          return;
+        }
+        handler(data as ServerEvents[typeof event]);
+      };
+      socket.on(event as string, listener);
+      return () => {
+        socket.off(event as string, listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,20 @@
+// Serves the person-segmentation model and its wasm runtime from our own
+// origin instead of a CDN, so background effects work on locked-down networks.
+import { cpSync, existsSync, mkdirSync, readdirSync } from "node:fs";
+import { join } from "node:path";
+
+const source = join("node_modules", "@mediapipe", "selfie_segmentation");
+const target = join("public", "mediapipe");
+const ASSET_PATTERN = /\.(js|wasm|data|tflite|binarypb)$/;
+
+if (!existsSync(source)) {
+  console.warn("@mediapipe/selfie_segmentation is not installed, skipping");
+  process.exit(0);
+}
+
+mkdirSync(target, { recursive: true });
+for (const file of readdirSync(source)) {
+  if (ASSET_PATTERN.test(file)) {
+    cpSync(join(source, file), join(target, file));
+  }
+}